@@ -1,207 +1,941 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { MapTile, LocationState, MapOffset } from './types';
-import { getTilesForArea, fetchSessionToken, latLngToPreciseTileXY, preciseTileXYToLatLng } from './services/googleMaps';
-import { imageUrlToBase64 } from './services/imageUtils';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { MapTile, LocationState, MapOffset, GenerationOptions, GenerationProgress, GenerationJob, GenerationJobStatus, GenerationSettings, UsageSnapshot, UsageBudgets, ViewportSize, MapSessionOptions, StyleComparison, StyleLayerState, GenerationScope, GenerationEstimate, SelectionRegion, RegionShape, Coordinates } from './types';
+import { getTilesForArea, latLngToPreciseTileXY, preciseTileXYToLatLng, toTileKey, zoomAroundPoint, getAncestorTile, zoomForBounds, describeSessionOptions, parseTileKey, buildMapTile, normalizeLng } from './services/googleMaps';
+import { createTileSourceFromConfig } from './services/tileSources';
+import type { TileSource } from './services/tileSources';
+import { createStyleEngineFromConfig } from './services/styleEngines';
+import type { StyleEngine } from './services/styleEngines';
+import { generateStyledTile, generateStyledMosaic, partitionIntoBlocks, describeGenerationSettings, styleForVariation, composeStyledTileFromChildren } from './services/styleGeneration';
+import type { StyleDefinition } from './services/styleGeneration';
+import { loadSavedStyle, saveStyle, deleteSavedStyle } from './services/styleStore';
+import type { Base64Image } from './services/imageUtils';
+import { createGenerationQueueFromConfig } from './services/generationQueue';
+import type { GenerationQueue } from './services/generationQueue';
+import { readPermalink, buildPermalink } from './services/permalink';
+import { createSessionManager } from './services/sessionManager';
+import type { SessionManager } from './services/sessionManager';
+import { loadMapSessionOptions, saveMapSessionOptions } from './services/mapSettings';
+import { createGeocoderFromConfig } from './services/geocoders';
+import type { Geocoder, GeocodeResult } from './services/geocoders';
+import { hashStyle, getCachedStyledTiles, putCachedStyledTile, putCachedStyledTileHistory, setCachedStyledTilePinned, clearStyleCache } from './services/styledTileCache';
+import { getPyramidNeighbourKeys } from './services/tilePyramid';
+import { blendStyledBlock } from './services/seamBlending';
+import { getTilesInRegion } from './services/regionSelection';
+import { estimateGeneration } from './services/generationEstimate';
+import { pushTileVersion, stepTileHistory } from './services/tileHistory';
+import type { TileHistory } from './services/tileHistory';
+import { createStyleLayer, loadStyleLayers, saveStyleLayers, getLayerGenerationSettings } from './services/styleLayers';
+import { createUsageTracker, trackStyleEngineUsage, getUsageBudgetError } from './services/usageTracker';
 import LocationForm from './components/LocationForm';
 import MapGrid from './components/MapGrid';
 import ZoomControls from './components/ZoomControls';
-import { DEFAULT_LOCATION, FETCH_GRID_DIMENSION, TILE_SIZE, MIN_ZOOM, MAX_ZOOM } from './constants';
+import CompareControls from './components/CompareControls';
+import StyleLayerSwitcher from './components/StyleLayerSwitcher';
+import RegionSelector from './components/RegionSelector';
+import PreflightDialog from './components/PreflightDialog';
+import ExportPanel from './components/ExportPanel';
+import MapSettings from './components/MapSettings';
+import GenerationQueuePanel from './components/GenerationQueuePanel';
+import UsagePanel from './components/UsagePanel';
+import { DEFAULT_LOCATION, DEFAULT_VIEWPORT_SIZE, MAX_TILE_ORIGIN_DRIFT, MAX_OVERZOOM_LEVELS, TILE_SIZE, MIN_ZOOM, MAX_ZOOM, DEFAULT_PLACE_ZOOM, PERMALINK_HISTORY_DELAY_MS, STYLE_MODEL, DEFAULT_STYLE_COMPARISON, DEFAULT_STYLE_PROMPT } from './constants';
+
+const EMPTY_TILES: MapTile[] = [];
+
+const NO_TARGET_TILES_ERRORS: Record<GenerationScope, string> = {
+  center: "Could not find the central map tile to apply style to.",
+  viewport: "There are no map tiles in the viewport to apply style to.",
+  region: "Draw a region on the map to apply style to.",
+};
+
+const ALL_TARGET_TILES_PINNED_ERRORS: Record<GenerationScope, string> = {
+  center: "The central tile is pinned. Unpin it to restyle it.",
+  viewport: "Every tile in the viewport is pinned. Unpin a tile to restyle it.",
+  region: "Every tile in the region is pinned. Unpin a tile to restyle it.",
+};
+const ZERO_OFFSET: MapOffset = { x: 0, y: 0 };
 
 const App: React.FC = () => {
-  const [location, setLocation] = useState<LocationState>(DEFAULT_LOCATION);
-  const [tiles, setTiles] = useState<MapTile[]>([]);
-  const [mapOffset, setMapOffset] = useState<MapOffset>({ x: 0, y: 0 });
-  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [location, setLocation] = useState<LocationState>(() => readPermalink(window.location.hash).location ?? DEFAULT_LOCATION);
   const [error, setError] = useState<string | null>(null);
+  const [tileSource, setTileSource] = useState<TileSource | null>(null);
+  const [tileSourceError, setTileSourceError] = useState<string | null>(null);
   const [sessionToken, setSessionToken] = useState<string | null>(null);
+  const [sessionOptions, setSessionOptions] = useState<MapSessionOptions>(loadMapSessionOptions);
+  const [preserveLabels, setPreserveLabels] = useState<boolean>(false);
+  const [labelLayerTokens, setLabelLayerTokens] = useState<{ unlabeled: string; labels: string } | null>(null);
+  const [styleLayers, setStyleLayers] = useState<StyleLayerState>(() => loadStyleLayers(DEFAULT_STYLE_PROMPT));
+  // The prompt box edits the active style layer's prompt.
+  const [stylePrompt, setStylePrompt] = useState<string>(
+    () => readPermalink(window.location.hash).stylePrompt
+      ?? styleLayers.layers.find(layer => layer.id === styleLayers.activeLayerId)?.prompt
+      ?? DEFAULT_STYLE_PROMPT,
+  );
+  const [referenceImages, setReferenceImages] = useState<Base64Image[]>([]);
+  // Styled tiles for the style currently in the prompt box, keyed by tile key.
   const [styledTiles, setStyledTiles] = useState<Record<string, string>>({});
-  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  // Candidates generated with variations, keyed by tile key. The chosen one is in `styledTiles`.
+  const [styledVariants, setStyledVariants] = useState<Record<string, string[]>>({});
+  // Versions of each styled tile, keyed by style hash and then tile key. They are saved, so undo works after a reload.
+  const [tileHistories, setTileHistories] = useState<Record<string, Record<string, TileHistory>>>({});
+  // Tiles of the current style whose image is kept when the area is restyled.
+  const [pinnedTileKeys, setPinnedTileKeys] = useState<Set<string>>(() => new Set());
+  const [selectedTileKey, setSelectedTileKey] = useState<string | null>(null);
+  const [region, setRegion] = useState<SelectionRegion | null>(null);
+  const [regionDrawMode, setRegionDrawMode] = useState<RegionShape | null>(null);
+  // A region generation waiting for the user to confirm its pre-flight estimate.
+  const [pendingGeneration, setPendingGeneration] = useState<{ stylePrompt: string; options: GenerationOptions; estimate: GenerationEstimate } | null>(null);
+  // The images of tiles blended this session as they were before seam blending, keyed by the blended image.
+  const [unblendedUrls, setUnblendedUrls] = useState<Map<string, string>>(() => new Map());
+  const [generationQueue, setGenerationQueue] = useState<GenerationQueue | null>(null);
+  const [generationQueueError, setGenerationQueueError] = useState<string | null>(null);
+  const [generationJobs, setGenerationJobs] = useState<GenerationJob[]>([]);
   const [generationError, setGenerationError] = useState<string | null>(null);
+  // Why the last generate request was turned down; shown by the style form rather than over the map.
+  const [generationNotice, setGenerationNotice] = useState<string | null>(null);
+  // Whether queued jobs were cancelled because a budget was used up, until the budgets change.
+  const [budgetCancelledJobs, setBudgetCancelledJobs] = useState<boolean>(false);
+  const [comparison, setComparison] = useState<StyleComparison>(DEFAULT_STYLE_COMPARISON);
+  const [usageTracker] = useState(createUsageTracker);
+  const [usage, setUsage] = useState<UsageSnapshot>(() => usageTracker.getSnapshot());
+
+  useEffect(() => usageTracker.subscribe(setUsage), [usageTracker]);
 
   useEffect(() => {
-    if (!process.env.MAPS_API_KEY) {
-      const errorMsg = "API_KEY environment variable not set. Please provide a valid API key for Google services.";
+    let source: TileSource;
+    try {
+      source = createTileSourceFromConfig();
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Failed to configure the tile source.';
       console.error(errorMsg);
       setError(errorMsg);
-      setIsLoading(false);
+      setTileSourceError(errorMsg);
       return;
     }
+    console.log(`Using tile source: ${source.name}`);
+    setTileSource(source);
+  }, []);
 
-    const initSession = async () => {
-      console.log('Initializing map session...');
-      try {
-        const token = await fetchSessionToken(process.env.MAPS_API_KEY as string);
-        console.log('Session token received:', token);
-        setSessionToken(token);
+  useEffect(() => {
+    let queue: GenerationQueue;
+    try {
+      queue = createGenerationQueueFromConfig();
+    } catch (err) {
+      setGenerationQueueError(err instanceof Error ? err.message : 'Failed to configure the generation queue.');
+      return;
+    }
+    setGenerationQueue(queue);
+    const unsubscribe = queue.subscribe(setGenerationJobs);
+
+    return () => {
+      unsubscribe();
+      queue.dispose();
+    };
+  }, []);
+
+  const isGenerating = generationJobs.some(job => job.status === 'queued' || job.status === 'running' || job.status === 'retrying');
+
+  // Progress over the jobs still in the queue and those that finished since it was last idle. Failed jobs are
+  // left out; the queue panel lists them.
+  const generationProgress = useMemo((): GenerationProgress | null => {
+    const countTiles = (statuses: GenerationJobStatus[]) => generationJobs
+      .filter(job => statuses.includes(job.status))
+      .reduce((sum, job) => sum + job.tileKeys.length, 0);
+    const remaining = countTiles(['queued', 'running', 'retrying']);
+    if (remaining === 0) return null;
+    const completed = countTiles(['succeeded']);
+    return { completed, total: completed + remaining };
+  }, [generationJobs]);
+
+  const sessionManagerRef = useRef<SessionManager | null>(null);
+
+  // A new session is needed whenever the session options change; its tiles then replace the old ones.
+  useEffect(() => {
+    if (!tileSource?.createSession) return;
+    const createSession = tileSource.createSession;
+
+    const manager = createSessionManager(
+      () => createSession(sessionOptions),
+      session => {
+        console.log('Session token received:', session.token);
+        setSessionToken(session.token);
         setError(null);
-      } catch (err) {
-        const errorMsg = err instanceof Error ? err.message : 'Failed to initialize map session.';
-        console.error('Session initialization failed:', errorMsg, err);
-        setError(errorMsg);
-        setIsLoading(false);
+      },
+    );
+    sessionManagerRef.current = manager;
+
+    console.log('Initializing map session...');
+    manager.getSession().catch(err => {
+      const errorMsg = err instanceof Error ? err.message : 'Failed to initialize map session.';
+      console.error('Session initialization failed:', errorMsg, err);
+      setError(errorMsg);
+    });
+
+    return () => {
+      manager.dispose();
+      if (sessionManagerRef.current === manager) sessionManagerRef.current = null;
+    };
+  }, [tileSource, sessionOptions]);
+
+  const labelSessionManagersRef = useRef<SessionManager[]>([]);
+
+  // Label-preserving mode needs two more sessions: the map with its labels hidden, which is what gets restyled,
+  // and the labels alone, which are drawn over the styled tiles.
+  useEffect(() => {
+    setLabelLayerTokens(null);
+    if (!preserveLabels || !tileSource?.createSession) return;
+    const createSession = tileSource.createSession;
+
+    const tokens: { unlabeled?: string; labels?: string } = {};
+    const managers = (['unlabeled', 'labels'] as const).map(variant => createSessionManager(
+      () => createSession(sessionOptions, variant),
+      session => {
+        tokens[variant] = session.token;
+        if (tokens.unlabeled && tokens.labels) setLabelLayerTokens({ unlabeled: tokens.unlabeled, labels: tokens.labels });
+      },
+    ));
+    labelSessionManagersRef.current = managers;
+
+    console.log('Initializing label layer sessions...');
+    Promise.all(managers.map(manager => manager.getSession())).catch(err => {
+      const errorMsg = err instanceof Error ? err.message : 'Failed to initialize label layer sessions.';
+      console.error('Label layer session initialization failed:', errorMsg, err);
+      setGenerationError(`Could not set up label-preserving mode: ${errorMsg}`);
+    });
+
+    return () => {
+      managers.forEach(manager => manager.dispose());
+      if (labelSessionManagersRef.current === managers) labelSessionManagersRef.current = [];
+    };
+  }, [tileSource, sessionOptions, preserveLabels]);
+
+  // A failing tile may mean the session expired. Renewing it changes every tile URL, which retries the loads.
+  const handleTileError = useCallback(() => {
+    for (const manager of [sessionManagerRef.current, ...labelSessionManagersRef.current]) {
+      manager?.recover()?.catch(err => console.error('Failed to renew map session:', err));
+    }
+  }, []);
+
+  const handleSessionOptionsChange = (options: MapSessionOptions) => {
+    setSessionOptions(options);
+    saveMapSessionOptions(options);
+  };
+
+  // The first write only tidies up the URL the app was opened with; later ones add history entries.
+  const hasWrittenPermalinkRef = useRef(false);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const hash = buildPermalink({ location, stylePrompt });
+      // Compare normalised forms, so returning to a view with back/forward doesn't push it again.
+      const current = readPermalink(window.location.hash);
+      const currentHash = current.location ? buildPermalink({ location: current.location, stylePrompt: current.stylePrompt ?? '' }) : '';
+      const isFirstWrite = !hasWrittenPermalinkRef.current;
+      hasWrittenPermalinkRef.current = true;
+      if (hash === currentHash) return;
+
+      if (isFirstWrite) {
+        window.history.replaceState(null, '', hash);
+      } else {
+        window.history.pushState(null, '', hash);
       }
+    }, hasWrittenPermalinkRef.current ? PERMALINK_HISTORY_DELAY_MS : 0);
+
+    return () => clearTimeout(timeout);
+  }, [location, stylePrompt]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const permalink = readPermalink(window.location.hash);
+      if (permalink.location) setLocation(permalink.location);
+      // A permalink without a style was written while the prompt was empty, so that's what it goes back to.
+      setStylePrompt(permalink.stylePrompt ?? '');
     };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  useEffect(() => {
+    setStyleLayers(prev => {
+      const activeLayer = prev.layers.find(layer => layer.id === prev.activeLayerId);
+      if (!activeLayer || activeLayer.prompt === stylePrompt) return prev;
+      return {
+        ...prev,
+        layers: prev.layers.map(layer => (layer.id === activeLayer.id ? { ...layer, prompt: stylePrompt } : layer)),
+      };
+    });
+  }, [stylePrompt]);
+
+  useEffect(() => {
+    saveStyleLayers(styleLayers);
+  }, [styleLayers]);
+
+  const activeLayer = styleLayers.layers.find(layer => layer.id === styleLayers.activeLayerId);
+  const generationSettings = useMemo(() => getLayerGenerationSettings(activeLayer), [activeLayer]);
+
+  const updateLayerSettings = (layerId: string, settings: GenerationSettings) => {
+    setStyleLayers(prev => ({
+      ...prev,
+      layers: prev.layers.map(layer => (layer.id === layerId ? { ...layer, generationSettings: settings } : layer)),
+    }));
+  };
+
+  const handleStyleLayerSelect = (id: string) => {
+    const layer = styleLayers.layers.find(l => l.id === id);
+    if (!layer) return;
+    setStyleLayers(prev => ({ ...prev, activeLayerId: id }));
+    setStylePrompt(layer.prompt);
+  };
+
+  // A new layer starts with its name as the prompt, which is usually what it's named after.
+  const handleStyleLayerAdd = (name: string) => {
+    const layer = createStyleLayer(name, name);
+    setStyleLayers(prev => ({ layers: [...prev.layers, layer], activeLayerId: layer.id }));
+    setStylePrompt(layer.prompt);
+  };
+
+  // Removing a layer forgets its reference images; its tiles and their versions stay cached until they are evicted.
+  const handleStyleLayerRemove = (id: string) => {
+    if (styleLayers.layers.length <= 1) return;
+    const index = styleLayers.layers.findIndex(l => l.id === id);
+    if (index === -1) return;
+    const layers = styleLayers.layers.filter(l => l.id !== id);
+    deleteSavedStyle(id).catch(err => console.error('Failed to delete saved style:', err));
+    if (id === styleLayers.activeLayerId) {
+      const nextLayer = layers[Math.min(index, layers.length - 1)];
+      setStyleLayers({ layers, activeLayerId: nextLayer.id });
+      setStylePrompt(nextLayer.prompt);
+    } else {
+      setStyleLayers(prev => ({ ...prev, layers }));
+    }
+  };
 
-    initSession();
+  const isSourceReady = tileSource !== null && (!tileSource.createSession || sessionToken !== null);
+
+  const isLoading = !error && !isSourceReady;
+
+  const [viewportSize, setViewportSize] = useState<ViewportSize>(DEFAULT_VIEWPORT_SIZE);
+  const mapSectionRef = useRef<HTMLElement>(null);
+
+  // The map fills its section, so the tile range follows the section's size as the window or layout changes.
+  useEffect(() => {
+    const section = mapSectionRef.current;
+    if (!section) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const width = Math.floor(entry.contentRect.width);
+      const height = Math.floor(entry.contentRect.height);
+      if (width === 0 || height === 0) return;
+      setViewportSize(prev => (prev.width === width && prev.height === height ? prev : { width, height }));
+    });
+    observer.observe(section);
+    return () => observer.disconnect();
   }, []);
 
-  const fetchTiles = useCallback(async (currentLocation: LocationState) => {
-    console.log('fetchTiles called with location:', currentLocation);
-    if (!sessionToken || !process.env.MAPS_API_KEY) {
-      const msg = !process.env.MAPS_API_KEY ? "API Key is missing." : "Session token not available.";
-      console.error(msg);
-      setError(msg);
-      return;
+  // The tile that grid position (0, 0) refers to. It only moves when the zoom changes or the view jumps far away,
+  // so tiles keep their positions (and stay mounted) while panning.
+  const tileOriginRef = useRef<{ x: number; y: number; zoom: number } | null>(null);
+  const previousTilesRef = useRef<MapTile[]>([]);
+
+  const mapData = useMemo(() => {
+    if (!tileSource || !isSourceReady) return null;
+
+    const preciseCenter = latLngToPreciseTileXY(location.lat, location.lng, location.zoom);
+    let origin = tileOriginRef.current;
+    if (
+      !origin ||
+      origin.zoom !== location.zoom ||
+      Math.abs(preciseCenter.x - origin.x) > MAX_TILE_ORIGIN_DRIFT ||
+      Math.abs(preciseCenter.y - origin.y) > MAX_TILE_ORIGIN_DRIFT
+    ) {
+      origin = { x: Math.floor(preciseCenter.x), y: Math.floor(preciseCenter.y), zoom: location.zoom };
+      tileOriginRef.current = origin;
     }
-    
-    setIsLoading(true);
-    setError(null);
 
+    const data = getTilesForArea({
+      center: { lat: location.lat, lng: location.lng },
+      zoom: location.zoom,
+      viewport: viewportSize,
+      tileSource,
+      sessionToken,
+      labelLayerTokens,
+      origin,
+    });
+
+    // Most pan steps only move the offset. Reusing the previous array in that case keeps everything that
+    // depends on `tiles` (memoized tiles, cache lookups) from redoing work.
+    const previous = previousTilesRef.current;
+    const isSameTileSet = previous.length === data.tiles.length && previous.every((tile, i) =>
+      tile.key === data.tiles[i].key && tile.url === data.tiles[i].url && tile.gridX === data.tiles[i].gridX && tile.gridY === data.tiles[i].gridY &&
+      tile.unlabeledUrl === data.tiles[i].unlabeledUrl && tile.labelsUrl === data.tiles[i].labelsUrl
+    );
+    if (isSameTileSet) {
+      return { ...data, tiles: previous };
+    }
+    previousTilesRef.current = data.tiles;
+    return data;
+  }, [tileSource, isSourceReady, sessionToken, labelLayerTokens, location, viewportSize]);
+
+  const tiles = mapData?.tiles ?? EMPTY_TILES;
+  const mapOffset = mapData?.offset ?? ZERO_OFFSET;
+
+  const { styleEngine, styleEngineError } = useMemo((): { styleEngine: StyleEngine | null; styleEngineError: string | null } => {
     try {
-      console.log('Requesting tiles from getTilesForArea...');
-      const { tiles: newTiles, offset: newOffset } = await getTilesForArea({
-        center: { lat: currentLocation.lat, lng: currentLocation.lng },
-        zoom: currentLocation.zoom,
-        gridDimension: FETCH_GRID_DIMENSION,
-        sessionToken,
-        apiKey: process.env.MAPS_API_KEY as string,
-      });
-      console.log(`Received ${newTiles.length} tiles with offset:`, newOffset);
-      setTiles(newTiles);
-      setMapOffset(newOffset);
+      const engine = createStyleEngineFromConfig();
+      console.log(`Using style engine: ${engine.name}`);
+      return { styleEngine: trackStyleEngineUsage(engine, usageTracker), styleEngineError: null };
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : 'An unknown error occurred while fetching tiles.';
-      console.error('Error fetching tiles:', errorMsg, err);
-      setError(errorMsg);
-    } finally {
-      console.log('fetchTiles finished.');
-      setIsLoading(false);
+      return { styleEngine: null, styleEngineError: err instanceof Error ? err.message : 'Failed to configure the style engine.' };
     }
-  }, [sessionToken]);
-  
+  }, [usageTracker]);
+
+  // Budgets only limit engines that charge for requests.
+  const isStyleEngineMetered = !!styleEngine?.pricing;
+  const budgetError = isStyleEngineMetered ? getUsageBudgetError(usage) : null;
+  const hasPendingJobs = generationJobs.some(job => job.status === 'queued' || job.status === 'retrying');
+
+  // Once a budget is used up, every job left in the queue would fail with the same error. They are cancelled
+  // instead, with one message in the Usage panel, and can be retried from the queue after raising the limit.
   useEffect(() => {
-    if (sessionToken) {
-      console.log('Session token is set, fetching initial tiles.');
-      fetchTiles(location);
+    if (!budgetError || !hasPendingJobs || !generationQueue) return;
+    generationQueue.cancelQueued();
+    setBudgetCancelledJobs(true);
+  }, [budgetError, hasPendingJobs, generationQueue]);
+
+  const handleBudgetsChange = (budgets: UsageBudgets) => {
+    usageTracker.setBudgets(budgets);
+    setBudgetCancelledJobs(false);
+    setGenerationError(null);
+    setGenerationNotice(null);
+  };
+
+  const countedTileUrlsRef = useRef<Set<string>>(new Set());
+
+  // Counts each base map image once, as the browser caches it after the first load.
+  useEffect(() => {
+    const counted = countedTileUrlsRef.current;
+    let fetches = 0;
+    for (const tile of tiles) {
+      for (const url of [tile.url, tile.labelsUrl]) {
+        if (!url || counted.has(url)) continue;
+        counted.add(url);
+        fetches++;
+      }
     }
-  }, [sessionToken, location, fetchTiles]);
+    if (fetches > 0) usageTracker.recordTileFetches(fetches);
+  }, [tiles, usageTracker]);
 
-  const handleGenerateStyles = async (stylePrompt: string) => {
-    if (!process.env.GEMINI_CUSTOM_API_KEY) {
-      setGenerationError("API Key is missing.");
-      return;
+  const geocoder = useMemo((): Geocoder | null => {
+    try {
+      const configured = createGeocoderFromConfig();
+      console.log(`Using geocoder: ${configured.name}`);
+      return configured;
+    } catch (err) {
+      // Place search is optional, so a misconfigured geocoder only hides it.
+      console.error('Failed to configure the geocoder:', err);
+      return null;
     }
+  }, []);
 
-    const centralGridIndex = Math.floor(FETCH_GRID_DIMENSION / 2);
-    const centralTile = tiles.find(t => t.gridX === centralGridIndex && t.gridY === centralGridIndex);
+  // A saved model choice only applies if the current engine offers it.
+  const styleModel = styleEngine
+    ? (styleEngine.availableModels.includes(generationSettings.model) ? generationSettings.model : styleEngine.model)
+    : STYLE_MODEL;
+  const settingsDescription = describeGenerationSettings(generationSettings);
+  // Styled tiles are only valid for the base tiles they were made from, so the session options are part of the style.
+  // Tiles restyled without their labels are kept apart from those restyled with them.
+  const baseLayer = tileSource?.createSession
+    ? describeSessionOptions(sessionOptions) + (preserveLabels ? '|unlabeled' : '')
+    : '';
+  const styleHash = useMemo(
+    () => hashStyle(stylePrompt.trim(), styleModel, referenceImages, baseLayer, settingsDescription, styleLayers.activeLayerId),
+    [stylePrompt, styleModel, referenceImages, baseLayer, settingsDescription, styleLayers.activeLayerId],
+  );
+  const styleHashRef = useRef(styleHash);
+  const styledTilesRef = useRef(styledTiles);
+  const pinnedTileKeysRef = useRef(pinnedTileKeys);
 
-    if (!centralTile) {
-      setGenerationError("Could not find the central map tile to apply style to.");
-      return;
-    }
+  useEffect(() => {
+    styledTilesRef.current = styledTiles;
+  }, [styledTiles]);
 
-    console.log(`Starting style generation for central tile (${centralTile.key}) with prompt: "${stylePrompt}"`);
-    setIsGenerating(true);
-    setGenerationError(null);
+  useEffect(() => {
+    pinnedTileKeysRef.current = pinnedTileKeys;
+  }, [pinnedTileKeys]);
 
-    try {
-      const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_CUSTOM_API_KEY as string });
+  useEffect(() => {
+    let cancelled = false;
+    loadSavedStyle(styleLayers.activeLayerId)
+      .then(saved => {
+        if (!cancelled) setReferenceImages(saved?.referenceImages ?? []);
+      })
+      .catch(err => console.error('Failed to load saved style:', err));
 
-      console.log(`Converting tile image to base64...`);
-      const { data: base64ImageData, mimeType } = await imageUrlToBase64(centralTile.url);
+    return () => {
+      cancelled = true;
+    };
+  }, [styleLayers.activeLayerId]);
 
-      const prompt = `Restyle this map image in the style of ${stylePrompt}. Preserve the geographic features like roads and buildings. The resulting image must be seamless with no borders, vignette, or frame.`;
+  const handleReferenceImagesChange = (images: Base64Image[]) => {
+    setReferenceImages(images);
+    saveStyle({ layerId: styleLayers.activeLayerId, referenceImages: images })
+      .catch(err => console.error('Failed to save style:', err));
+  };
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: {
-          parts: [
-            { inlineData: { data: base64ImageData, mimeType } },
-            { text: prompt },
-          ],
-        },
-        config: {
-          responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-      });
+  const handleGenerationSettingsChange = (settings: GenerationSettings) => {
+    updateLayerSettings(styleLayers.activeLayerId, settings);
+  };
 
-      const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+  // The histories as last saved, keyed like `tileHistories`.
+  const savedTileHistoriesRef = useRef<Record<string, Record<string, TileHistory>>>({});
 
-      if (imagePart?.inlineData) {
-        const newBase64 = imagePart.inlineData.data;
-        const newMimeType = imagePart.inlineData.mimeType;
-        const styledImageUrl = `data:${newMimeType};base64,${newBase64}`;
+  // Tile keys already looked up in the cache for the current style, so panning only queries newly visible tiles.
+  const checkedCacheKeysRef = useRef<Set<string>>(new Set());
 
-        console.log(`Successfully generated styled tile. Applying to map...`);
-        setStyledTiles(prev => ({
-          ...prev,
-          [centralTile.key]: styledImageUrl,
-        }));
+  useEffect(() => {
+    styleHashRef.current = styleHash;
+    checkedCacheKeysRef.current = new Set();
+    setStyledTiles({});
+    setStyledVariants({});
+    setPinnedTileKeys(new Set());
+    setUnblendedUrls(new Map());
+  }, [styleHash]);
 
-      } else {
-        console.warn(`No image part returned for tile ${centralTile.key}.`, response);
-        const textPart = response.candidates?.[0]?.content?.parts?.find(part => part.text);
-        const reason = response.candidates?.[0]?.finishReason;
-        const safety = response.candidates?.[0]?.safetyRatings;
-        let errorDetails = `Style generation failed: No image was returned from the API.`;
-        if (textPart?.text) errorDetails += `\nResponse Text: "${textPart.text}"`;
-        if (reason) errorDetails += `\nFinish Reason: ${reason}`;
-        if (safety) errorDetails += `\nSafety Ratings: ${JSON.stringify(safety)}`;
-        
-        setGenerationError(errorDetails);
+  useEffect(() => {
+    // Ancestor tiles are looked up too, so an unstyled tile can show its parent's style cropped and upscaled.
+    const keys = new Set<string>();
+    for (const tile of tiles) {
+      keys.add(tile.key);
+      for (let levels = 1; levels <= MAX_OVERZOOM_LEVELS; levels++) {
+        const ancestor = getAncestorTile(tile.zoom, tile.x, tile.y, levels);
+        if (ancestor) keys.add(toTileKey(ancestor.zoom, ancestor.x, ancestor.y));
       }
+    }
+    const uncheckedKeys = [...keys].filter(key => !checkedCacheKeysRef.current.has(key));
+    if (uncheckedKeys.length === 0) return;
+    uncheckedKeys.forEach(key => checkedCacheKeysRef.current.add(key));
+    let cancelled = false;
+
+    getCachedStyledTiles(styleHash, uncheckedKeys)
+      .then(cached => {
+        if (cancelled || Object.keys(cached).length === 0) return;
+        console.log(`Restored ${Object.keys(cached).length} styled tile(s) from cache.`);
+        const dataUrls = Object.fromEntries(Object.entries(cached).map(([key, tile]) => [key, tile.dataUrl]));
+        const pinnedKeys = Object.keys(cached).filter(key => cached[key].pinned);
+        const histories: Record<string, TileHistory> = {};
+        for (const [key, tile] of Object.entries(cached)) {
+          if (tile.history) histories[key] = tile.history;
+        }
+        // Anything generated in this session is newer than the cache, so it wins.
+        setStyledTiles(prev => ({ ...dataUrls, ...prev }));
+        if (pinnedKeys.length > 0) setPinnedTileKeys(prev => new Set([...prev, ...pinnedKeys]));
+        if (Object.keys(histories).length > 0) {
+          // Loaded histories are already saved, so they aren't written back.
+          Object.assign(savedTileHistoriesRef.current[styleHash] ??= {}, histories);
+          setTileHistories(prev => ({ ...prev, [styleHash]: { ...histories, ...prev[styleHash] } }));
+        }
+      })
+      .catch(err => console.error('Failed to read styled tile cache:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [styleHash, tiles]);
+
+  // Saves the histories that changed since they were last saved.
+  useEffect(() => {
+    for (const [hash, histories] of Object.entries(tileHistories)) {
+      const saved = savedTileHistoriesRef.current[hash] ??= {};
+      for (const [tileKey, history] of Object.entries(histories)) {
+        if (saved[tileKey] === history) continue;
+        saved[tileKey] = history;
+        putCachedStyledTileHistory(hash, tileKey, history)
+          .catch(err => console.error(`Failed to save the history of tile ${tileKey}:`, err));
+      }
+    }
+  }, [tileHistories]);
+
+  /**
+   * Shows newly styled tiles if their style is still the active one, and persists them to the cache either way.
+   * Each becomes a new version in its tile's history. Pinned tiles keep their image.
+   */
+  const applyStyledTiles = useCallback((generatedStyleHash: string, newStyledTiles: Record<string, string>) => {
+    if (styleHashRef.current === generatedStyleHash) {
+      const unpinnedTiles = Object.fromEntries(
+        Object.entries(newStyledTiles).filter(([tileKey]) => !pinnedTileKeysRef.current.has(tileKey)),
+      );
+      // A tile restored from the cache has no history yet; its cached image becomes the first version.
+      const previousTiles = styledTilesRef.current;
+      setStyledTiles(prev => ({ ...prev, ...unpinnedTiles }));
+      setTileHistories(prev => {
+        const histories = { ...prev[generatedStyleHash] };
+        for (const [tileKey, dataUrl] of Object.entries(unpinnedTiles)) {
+          const history = histories[tileKey]
+            ?? (previousTiles[tileKey] ? { versions: [previousTiles[tileKey]], index: 0 } : undefined);
+          histories[tileKey] = pushTileVersion(history, dataUrl);
+        }
+        return { ...prev, [generatedStyleHash]: histories };
+      });
+    }
+    // The cache leaves pinned tiles alone, including those of a style that is no longer shown.
+    for (const [tileKey, dataUrl] of Object.entries(newStyledTiles)) {
+      putCachedStyledTile(generatedStyleHash, tileKey, dataUrl)
+        .catch(err => console.error(`Failed to cache styled tile ${tileKey}:`, err));
+    }
+  }, []);
+
+  const handleClearStyleCache = async () => {
+    try {
+      const removed = await clearStyleCache(styleHash);
+      console.log(`Removed ${removed} cached tile(s) for the current style.`);
+      setStyledTiles({});
+      setPinnedTileKeys(new Set());
+      delete savedTileHistoriesRef.current[styleHash];
+      setTileHistories(prev => {
+        const next = { ...prev };
+        delete next[styleHash];
+        return next;
+      });
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : 'An unknown error occurred during style generation.';
-      console.error(`Failed to generate styled tile:`, err);
+      const errorMsg = err instanceof Error ? err.message : 'Failed to clear the style cache.';
+      console.error('Failed to clear style cache:', err);
       setGenerationError(errorMsg);
-    } finally {
-      setIsGenerating(false);
     }
   };
 
+  // The region's tiles at each of its zoom levels, or null if there are too many to list.
+  const regionTileCoordinates = useMemo(() => (region ? getTilesInRegion(region) : []), [region]);
+
+  /**
+   * Finds the tiles a generation restyles.
+   * @param scope - The generation's scope.
+   * @returns The tiles, lowest zoom level first.
+   */
+  const getTargetTiles = (scope: GenerationScope): MapTile[] => {
+    if (scope === 'viewport') return tiles;
+    if (scope === 'region') {
+      if (!tileSource || !regionTileCoordinates) return [];
+      // Region tiles may be off screen or at other zoom levels, so they are laid out on a grid of their own.
+      return regionTileCoordinates.map(({ zoom, x, y }) => buildMapTile(tileSource, zoom, x, y, sessionToken, labelLayerTokens, { x: 0, y: 0 }));
+    }
+    const preciseCenter = latLngToPreciseTileXY(location.lat, location.lng, location.zoom);
+    const centralKey = toTileKey(location.zoom, Math.floor(preciseCenter.x), Math.floor(preciseCenter.y));
+    const centralTile = tiles.find(t => t.key === centralKey);
+    return centralTile ? [centralTile] : [];
+  };
+
+  /**
+   * Starts a generation from the style form. A region is only restyled after its pre-flight estimate is confirmed.
+   */
+  const handleGenerateRequest = (stylePrompt: string, options: GenerationOptions) => {
+    // The tracker re-reads today's usage, which other tabs or a new day may have changed.
+    const currentBudgetError = isStyleEngineMetered ? usageTracker.getBudgetError() : null;
+    if (currentBudgetError) {
+      setGenerationNotice(currentBudgetError);
+      return;
+    }
+    if (options.scope !== 'region') {
+      handleGenerateStyles(stylePrompt, options);
+      return;
+    }
+    if (region && regionTileCoordinates === null) {
+      setGenerationNotice('The region has too many tiles to count. Draw a smaller region or lower its zoom levels.');
+      return;
+    }
+    const targetTiles = getTargetTiles('region');
+    if (targetTiles.length === 0) {
+      setGenerationNotice(NO_TARGET_TILES_ERRORS.region);
+      return;
+    }
+    const estimate = estimateGeneration(targetTiles, {
+      mosaicSize: options.mosaicSize,
+      variations: generationSettings.variations,
+      referenceImageCount: referenceImages.length,
+      matchZoomLevels: options.matchZoomLevels,
+    }, styleEngine?.pricing ?? null);
+    setGenerationError(null);
+    setGenerationNotice(null);
+    setPendingGeneration({ stylePrompt, options, estimate });
+  };
+
+  const handlePendingGenerationConfirm = () => {
+    if (!pendingGeneration) return;
+    setPendingGeneration(null);
+    handleGenerateStyles(pendingGeneration.stylePrompt, pendingGeneration.options);
+  };
+
+  const handlePendingGenerationCancel = useCallback(() => setPendingGeneration(null), []);
+
+  const handleRegionDrawn = useCallback((points: Coordinates[]) => {
+    setRegion({ shape: regionDrawMode ?? 'polygon', points, minZoom: location.zoom, maxZoom: location.zoom });
+    setRegionDrawMode(null);
+  }, [regionDrawMode, location.zoom]);
+
+  const handleRegionDrawCancel = useCallback(() => setRegionDrawMode(null), []);
+
+  const handleGenerateStyles = (stylePrompt: string, { scope, mosaicSize, matchZoomLevels, blendSeams }: GenerationOptions) => {
+    const style: StyleDefinition = { prompt: stylePrompt, referenceImages, labelFree: preserveLabels, settings: generationSettings };
+    if (!styleEngine) {
+      setGenerationError(styleEngineError);
+      return;
+    }
+    if (!generationQueue) {
+      setGenerationError(generationQueueError);
+      return;
+    }
+    const currentBudgetError = isStyleEngineMetered ? usageTracker.getBudgetError() : null;
+    if (currentBudgetError) {
+      setGenerationNotice(currentBudgetError);
+      return;
+    }
+    if (preserveLabels && !labelLayerTokens) {
+      setGenerationNotice("The map layers for label-preserving mode haven't loaded yet. Try again in a moment.");
+      return;
+    }
+
+    const targetTiles = getTargetTiles(scope);
+    if (targetTiles.length === 0) {
+      setGenerationNotice(NO_TARGET_TILES_ERRORS[scope]);
+      return;
+    }
+
+    const generatedStyleHash = hashStyle(stylePrompt.trim(), styleModel, referenceImages, baseLayer, settingsDescription, styleLayers.activeLayerId);
+    // Pinned tiles are skipped, though a mosaic still restyles them for context around the tiles it changes.
+    const isPinned = (tile: MapTile) => generatedStyleHash === styleHash && pinnedTileKeys.has(tile.key);
+    const unpinnedTiles = targetTiles.filter(tile => !isPinned(tile));
+    if (unpinnedTiles.length === 0) {
+      setGenerationNotice(ALL_TARGET_TILES_PINNED_ERRORS[scope]);
+      return;
+    }
+
+    console.log(`Queueing style generation for ${unpinnedTiles.length} tile(s) with prompt: "${stylePrompt}"`);
+    setGenerationError(null);
+    setGenerationNotice(null);
+    const variations = Math.max(1, generationSettings.variations);
+    const variationStyles = Array.from({ length: variations }, (_, i) => styleForVariation(style, i));
+
+    // The first candidate is shown and cached; the rest are kept to pick from until the style changes.
+    const applyVariants = (candidates: Record<string, string>[]) => {
+      applyStyledTiles(generatedStyleHash, candidates[0]);
+      if (styleHashRef.current !== generatedStyleHash) return;
+      setStyledVariants(prev => {
+        const next = { ...prev };
+        for (const tileKey of Object.keys(candidates[0])) {
+          if (pinnedTileKeysRef.current.has(tileKey)) continue;
+          if (candidates.length > 1) {
+            next[tileKey] = candidates.map(candidate => candidate[tileKey]);
+          } else {
+            delete next[tileKey];
+          }
+        }
+        return next;
+      });
+    };
+
+    // Styled tiles one zoom level further out and in, from the cache and this session. Looked up when a job starts,
+    // so it sees tiles finished by earlier jobs.
+    const loadPyramidTiles = async (tilesToMatch: MapTile[]): Promise<Record<string, string>> => {
+      if (!matchZoomLevels) return {};
+      const keys = getPyramidNeighbourKeys(tilesToMatch);
+      const cached = await getCachedStyledTiles(generatedStyleHash, keys);
+      const pyramidTiles = Object.fromEntries(Object.entries(cached).map(([key, tile]) => [key, tile.dataUrl]));
+      if (styleHashRef.current === generatedStyleHash) {
+        keys.forEach(key => {
+          if (styledTilesRef.current[key]) pyramidTiles[key] = styledTilesRef.current[key];
+        });
+      }
+      return pyramidTiles;
+    };
+
+    /**
+     * Builds tiles whose four children are all styled from those children. Returns null unless every tile can be.
+     */
+    const composeFromChildren = async (tilesToCompose: MapTile[], pyramidTiles: Record<string, string>) => {
+      if (!matchZoomLevels) return null;
+      const composed: Record<string, string> = {};
+      for (const tile of tilesToCompose) {
+        const url = await composeStyledTileFromChildren(tile, pyramidTiles);
+        if (!url) return null;
+        composed[tile.key] = url;
+      }
+      return composed;
+    };
+
+    /**
+     * Runs seam blending on every candidate for a block, keeping the originals to compare against. If blending
+     * fails, the unblended candidates are used rather than losing the generated images.
+     */
+    const blendCandidates = async (block: MapTile[][], candidates: Record<string, string>[], styledNeighbours: Record<string, string>) => {
+      if (!blendSeams) return candidates;
+      const zoom = block[0][0].zoom;
+      // Without styled neighbours, colours are matched to the first styled tile at this zoom level.
+      const referenceUrl = Object.entries(styledNeighbours).find(([key]) => parseTileKey(key)?.zoom === zoom)?.[1] ?? null;
+      try {
+        const blended: Record<string, string>[] = [];
+        for (const candidate of candidates) {
+          blended.push(await blendStyledBlock(block, candidate, styledNeighbours, referenceUrl));
+        }
+        setUnblendedUrls(prev => {
+          const next = new Map(prev);
+          blended.forEach((candidate, index) => Object.entries(candidate).forEach(([key, url]) => next.set(url, candidates[index][key])));
+          return next;
+        });
+        return blended;
+      } catch (err) {
+        console.error(`Seam blending failed for ${block[0][0].key}; keeping the unblended tiles:`, err);
+        return candidates;
+      }
+    };
+
+    if (scope !== 'center' && mosaicSize > 1) {
+      // Shared by the batch's jobs, so every block can see neighbours styled earlier, including in this batch.
+      const knownStyledTiles = generatedStyleHash === styleHash ? { ...styledTiles } : {};
+      const blocks = partitionIntoBlocks(targetTiles, mosaicSize).filter(block => block.flat().some(tile => !isPinned(tile)));
+      generationQueue.enqueue(blocks.map(block => ({
+        label: `${block[0].length}x${block.length} mosaic at ${block[0][0].key}`,
+        tileKeys: block.flat().map(tile => tile.key),
+        run: async (signal) => {
+          // Region tiles are laid out on their own grid, one per zoom level.
+          const neighbourTiles = scope === 'region' ? targetTiles.filter(t => t.zoom === block[0][0].zoom) : tiles;
+          const pyramidTiles = await loadPyramidTiles(block.flat());
+          const composed = await composeFromChildren(block.flat(), pyramidTiles);
+          signal.throwIfAborted();
+          if (composed) {
+            console.log(`Built mosaic at ${block[0][0].key} from the styled tiles one zoom level further in.`);
+            Object.assign(knownStyledTiles, composed);
+            applyVariants([composed]);
+            return;
+          }
+          let candidates: Record<string, string>[] = [];
+          for (const variationStyle of variationStyles) {
+            candidates.push(await generateStyledMosaic(styleEngine, block, neighbourTiles, knownStyledTiles, variationStyle, pyramidTiles, signal));
+            signal.throwIfAborted();
+          }
+          candidates = await blendCandidates(block, candidates, knownStyledTiles);
+          signal.throwIfAborted();
+          console.log(`Successfully generated styled mosaic at ${block[0][0].key}. Applying to map...`);
+          Object.assign(knownStyledTiles, candidates[0]);
+          applyVariants(candidates);
+        },
+      })));
+    } else {
+      generationQueue.enqueue(unpinnedTiles.map(tile => ({
+        label: `Tile ${tile.key}`,
+        tileKeys: [tile.key],
+        run: async (signal) => {
+          const pyramidTiles = await loadPyramidTiles([tile]);
+          const composed = await composeFromChildren([tile], pyramidTiles);
+          signal.throwIfAborted();
+          if (composed) {
+            console.log(`Built tile ${tile.key} from the styled tiles one zoom level further in.`);
+            applyVariants([composed]);
+            return;
+          }
+          let candidates: Record<string, string>[] = [];
+          for (const variationStyle of variationStyles) {
+            candidates.push({ [tile.key]: await generateStyledTile(styleEngine, tile, variationStyle, pyramidTiles, signal) });
+            signal.throwIfAborted();
+          }
+          const styledNeighbours = styleHashRef.current === generatedStyleHash ? styledTilesRef.current : {};
+          candidates = await blendCandidates([[tile]], candidates, styledNeighbours);
+          signal.throwIfAborted();
+          console.log(`Successfully generated styled tile ${tile.key}. Applying to map...`);
+          applyVariants(candidates);
+        },
+      })));
+    }
+  };
 
   const handleSubmit = (newLocation: LocationState) => {
     console.log('Form submitted with new location:', newLocation);
     setLocation(newLocation);
-    // fetchTiles is called by the useEffect watching location
+    // The visible tiles are derived from location
   };
   
-  const handlePanEnd = useCallback((panX: number, panY: number) => {
-    if (panX === 0 && panY === 0) return;
-
-    console.log(`Panning ended with offset: dx=${panX}, dy=${panY}`);
-    const { lat, lng, zoom } = location;
-    const currentTileXY = latLngToPreciseTileXY(lat, lng, zoom);
-    const newTileX = currentTileXY.x - panX / TILE_SIZE;
-    const newTileY = currentTileXY.y - panY / TILE_SIZE;
-    const newLatLng = preciseTileXYToLatLng(newTileX, newTileY, zoom);
-
-    const newLocation: LocationState = {
-      ...newLatLng,
-      zoom,
-    };
+  const handlePan = useCallback((dx: number, dy: number) => {
+    if (dx === 0 && dy === 0) return;
 
-    console.log('New location after pan:', newLocation);
-    setLocation(newLocation);
-    // fetchTiles is called by the useEffect watching location
-  }, [location]);
+    setLocation(prev => {
+      const currentTileXY = latLngToPreciseTileXY(prev.lat, prev.lng, prev.zoom);
+      const newTileX = currentTileXY.x - dx / TILE_SIZE;
+      const newTileY = currentTileXY.y - dy / TILE_SIZE;
+      const { lat, lng } = preciseTileXYToLatLng(newTileX, newTileY, prev.zoom);
+      // Panning across the antimeridian continues on the other side of the world.
+      return { lat, lng: normalizeLng(lng), zoom: prev.zoom };
+    });
+  }, []);
 
-  const handleZoomIn = () => {
-    const newZoom = Math.min(location.zoom + 1, MAX_ZOOM);
-    if (newZoom !== location.zoom) {
-      const newLocation = { ...location, zoom: newZoom };
-      setLocation(newLocation);
-    }
+  // Picking a variation makes it the tile's styled image, which also replaces it in the cache.
+  const handleVariantSelect = useCallback((tileKey: string, url: string) => {
+    applyStyledTiles(styleHashRef.current, { [tileKey]: url });
+  }, [applyStyledTiles]);
+
+  const selectedTileHistory = selectedTileKey ? tileHistories[styleHash]?.[selectedTileKey] : undefined;
+  const isSelectedTilePinned = selectedTileKey !== null && pinnedTileKeys.has(selectedTileKey);
+
+  /**
+   * Shows an earlier or later version of the selected tile, which also replaces it in the cache.
+   * @param step - -1 to undo, 1 to redo.
+   */
+  const handleTileHistoryStep = (step: -1 | 1) => {
+    if (!selectedTileKey || isSelectedTilePinned) return;
+    const history = stepTileHistory(selectedTileHistory, step);
+    if (!history) return;
+    const tileKey = selectedTileKey;
+    const dataUrl = history.versions[history.index];
+    setTileHistories(prev => ({ ...prev, [styleHash]: { ...prev[styleHash], [tileKey]: history } }));
+    setStyledTiles(prev => ({ ...prev, [tileKey]: dataUrl }));
+    putCachedStyledTile(styleHash, tileKey, dataUrl)
+      .catch(err => console.error(`Failed to cache styled tile ${tileKey}:`, err));
   };
-  
-  const handleZoomOut = () => {
-    const newZoom = Math.max(location.zoom - 1, MIN_ZOOM);
-     if (newZoom !== location.zoom) {
-      const newLocation = { ...location, zoom: newZoom };
-      setLocation(newLocation);
-    }
+
+  const handleTilePinToggle = () => {
+    if (!selectedTileKey) return;
+    const tileKey = selectedTileKey;
+    const pinned = !isSelectedTilePinned;
+    setPinnedTileKeys(prev => {
+      const next = new Set(prev);
+      if (pinned) {
+        next.add(tileKey);
+      } else {
+        next.delete(tileKey);
+      }
+      return next;
+    });
+    setCachedStyledTilePinned(styleHash, tileKey, pinned)
+      .catch(err => console.error(`Failed to ${pinned ? 'pin' : 'unpin'} styled tile ${tileKey}:`, err));
+  };
+
+  // Swaps tiles blended this session for their unblended originals, to compare before and after.
+  const displayedStyledTiles = useMemo(
+    () => (comparison.showUnblended
+      ? Object.fromEntries(Object.entries(styledTiles).map(([key, url]) => [key, unblendedUrls.get(url) ?? url]))
+      : styledTiles),
+    [comparison.showUnblended, styledTiles, unblendedUrls],
+  );
+
+  const handleSwipePositionChange = useCallback((swipePosition: number) => {
+    setComparison(prev => ({ ...prev, swipePosition }));
+  }, []);
+
+  const maxZoom = Math.min(tileSource?.maxZoom ?? MAX_ZOOM, MAX_ZOOM);
+
+  const handleZoom = useCallback((delta: number, anchor: { x: number; y: number } = { x: 0, y: 0 }) => {
+    setLocation(prev => {
+      const newZoom = Math.min(Math.max(prev.zoom + delta, MIN_ZOOM), maxZoom);
+      if (newZoom === prev.zoom) return prev;
+      return { ...zoomAroundPoint(prev, prev.zoom, newZoom, anchor), zoom: newZoom };
+    });
+  }, [maxZoom]);
+
+  const handleZoomIn = () => handleZoom(1);
+
+  const handleZoomOut = () => handleZoom(-1);
+
+  const handlePlaceSelect = (result: GeocodeResult) => {
+    const zoom = result.bounds ? zoomForBounds(result.bounds, viewportSize) : DEFAULT_PLACE_ZOOM;
+    const newLocation = { ...result.center, zoom: Math.min(Math.max(zoom, MIN_ZOOM), maxZoom) };
+    console.log(`Moving to ${result.name}:`, newLocation);
+    setLocation(newLocation);
   };
 
   return (
@@ -215,34 +949,149 @@ const App: React.FC = () => {
         <main className="flex flex-col xl:flex-row gap-8">
           <aside className="xl:w-1/4 bg-gray-800 p-6 rounded-xl shadow-lg border border-gray-700">
             <LocationForm
-              initialLocation={location}
+              currentLocation={location}
               onSubmit={handleSubmit}
+              geocoder={geocoder}
+              onPlaceSelect={handlePlaceSelect}
               isLoading={isLoading}
-              isApiKeyMissing={!process.env.API_KEY}
-              onGenerate={handleGenerateStyles}
+              configurationError={tileSourceError ?? styleEngineError}
+              onGenerate={handleGenerateRequest}
+              hasRegion={region !== null}
+              generationNotice={generationNotice}
+              stylePrompt={stylePrompt}
+              onStylePromptChange={setStylePrompt}
+              referenceImages={referenceImages}
+              onReferenceImagesChange={handleReferenceImagesChange}
+              onClearStyleCache={handleClearStyleCache}
+              generationSettings={generationSettings}
+              onGenerationSettingsChange={handleGenerationSettingsChange}
+              styleEngine={styleEngine}
+              preserveLabels={preserveLabels}
+              onPreserveLabelsChange={setPreserveLabels}
+              isLabelPreservationAvailable={!!tileSource?.createSession}
               isGenerating={isGenerating}
             />
+            <div className="my-6 border-t border-gray-700"></div>
+            <RegionSelector
+              region={region}
+              drawMode={regionDrawMode}
+              onDrawModeChange={setRegionDrawMode}
+              onZoomRangeChange={(minZoom, maxZoom) => setRegion(prev => (prev ? { ...prev, minZoom, maxZoom } : prev))}
+              onClear={() => {
+                setRegion(null);
+                setGenerationNotice(null);
+              }}
+              tileCount={regionTileCoordinates?.length ?? null}
+              minZoomLimit={MIN_ZOOM}
+              maxZoomLimit={maxZoom}
+              disabled={isLoading}
+            />
+            {tileSource?.createSession && (
+              <>
+                <div className="my-6 border-t border-gray-700"></div>
+                <MapSettings
+                  options={sessionOptions}
+                  onChange={handleSessionOptionsChange}
+                  disabled={isLoading}
+                />
+              </>
+            )}
+            {generationQueue && generationJobs.length > 0 && (
+              <>
+                <div className="my-6 border-t border-gray-700"></div>
+                <GenerationQueuePanel
+                  jobs={generationJobs}
+                  onCancel={generationQueue.cancel}
+                  onCancelAll={generationQueue.cancelAll}
+                  onRetry={generationQueue.retry}
+                  onClearFinished={generationQueue.clearFinished}
+                />
+              </>
+            )}
+            <div className="my-6 border-t border-gray-700"></div>
+            <UsagePanel
+              usage={usage}
+              onBudgetsChange={handleBudgetsChange}
+              budgetError={budgetError}
+              hasCancelledJobs={budgetCancelledJobs}
+            />
+            <div className="my-6 border-t border-gray-700"></div>
+            <ExportPanel
+              tiles={tiles}
+              styledTiles={styledTiles}
+              styleHash={styleHash}
+              stylePrompt={stylePrompt}
+              styleModel={styleModel}
+              disabled={isLoading || isGenerating}
+            />
           </aside>
           
-          <section className="relative flex-1 bg-gray-800 p-4 rounded-xl shadow-lg border border-gray-700 flex items-center justify-center min-h-[400px] lg:min-h-0">
+          <section
+            ref={mapSectionRef}
+            className="relative flex-1 bg-gray-800 p-4 rounded-xl shadow-lg border border-gray-700 flex items-center justify-center h-[70vh] min-h-[400px] min-w-0 overflow-hidden"
+          >
             <MapGrid
               tiles={tiles}
               isLoading={isLoading}
               error={error}
               offset={mapOffset}
-              onPanEnd={handlePanEnd}
-              styledTiles={styledTiles}
+              viewportSize={viewportSize}
+              onPan={handlePan}
+              onZoom={handleZoom}
+              onTileError={handleTileError}
+              styledTiles={displayedStyledTiles}
+              styledVariants={styledVariants}
+              onVariantSelect={handleVariantSelect}
               isGenerating={isGenerating}
+              generationProgress={generationProgress}
               generationError={generationError}
+              comparison={comparison}
+              onSwipePositionChange={handleSwipePositionChange}
+              selectedTileKey={selectedTileKey}
+              onTileSelect={setSelectedTileKey}
+              selectedTileVersions={selectedTileKey && styledTiles[selectedTileKey] ? {
+                version: selectedTileHistory ? selectedTileHistory.index + 1 : 1,
+                versionCount: selectedTileHistory?.versions.length ?? 1,
+                isPinned: isSelectedTilePinned,
+              } : null}
+              onTileUndo={() => handleTileHistoryStep(-1)}
+              onTileRedo={() => handleTileHistoryStep(1)}
+              onTilePinToggle={handleTilePinToggle}
+              regionDrawMode={regionDrawMode}
+              region={region?.points ?? null}
+              onRegionDrawn={handleRegionDrawn}
+              onRegionDrawCancel={handleRegionDrawCancel}
             />
+            {tiles.length > 0 && !error && (
+              <StyleLayerSwitcher
+                layers={styleLayers.layers}
+                activeLayerId={styleLayers.activeLayerId}
+                onSelect={handleStyleLayerSelect}
+                onAdd={handleStyleLayerAdd}
+                onRemove={handleStyleLayerRemove}
+              />
+            )}
+            {tiles.length > 0 && !error && (
+              <CompareControls comparison={comparison} onChange={setComparison} hasBlendedTiles={unblendedUrls.size > 0} />
+            )}
             <ZoomControls
               zoom={location.zoom}
+              maxZoom={maxZoom}
               onZoomIn={handleZoomIn}
               onZoomOut={handleZoomOut}
             />
           </section>
         </main>
       </div>
+      {pendingGeneration && (
+        <PreflightDialog
+          estimate={pendingGeneration.estimate}
+          stylePrompt={pendingGeneration.stylePrompt}
+          engineName={styleEngine?.name ?? 'this style engine'}
+          onConfirm={handlePendingGenerationConfirm}
+          onCancel={handlePendingGenerationCancel}
+        />
+      )}
     </div>
   );
 };
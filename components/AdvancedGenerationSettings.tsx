@@ -0,0 +1,137 @@
+import React from 'react';
+import type { GenerationSettings } from '../types';
+import type { StyleEngine } from '../services/styleEngines';
+import { DEFAULT_PROMPT_TEMPLATE, MAX_VARIATIONS } from '../constants';
+
+interface AdvancedGenerationSettingsProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  // Null if no style engine is configured.
+  styleEngine: StyleEngine | null;
+  disabled: boolean;
+}
+
+const inputClassName = "mt-1 block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500 disabled:opacity-50";
+
+/**
+ * Reads an optional number field, where an empty field means "not set".
+ */
+const parseOptionalNumber = (value: string): number | null => (value === '' ? null : Number(value));
+
+const AdvancedGenerationSettings: React.FC<AdvancedGenerationSettingsProps> = ({ settings, onChange, styleEngine, disabled }) => {
+  const update = (patch: Partial<GenerationSettings>) => onChange({ ...settings, ...patch });
+  const availableModels = styleEngine?.availableModels ?? [];
+  const supportsSampling = styleEngine?.supportsSampling ?? false;
+
+  return (
+    <details className="rounded-md border border-gray-700 px-3 py-2">
+      <summary className="cursor-pointer text-sm font-medium text-gray-300">Advanced</summary>
+      <div className="mt-3 space-y-4">
+        <div>
+          <div className="flex items-center justify-between">
+            <label htmlFor="promptTemplate" className="block text-sm font-medium text-gray-300">Prompt Template</label>
+            <button
+              type="button"
+              onClick={() => update({ promptTemplate: DEFAULT_PROMPT_TEMPLATE })}
+              disabled={disabled || settings.promptTemplate === DEFAULT_PROMPT_TEMPLATE}
+              className="text-xs text-teal-400 hover:text-teal-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Reset
+            </button>
+          </div>
+          <textarea
+            id="promptTemplate"
+            rows={4}
+            value={settings.promptTemplate}
+            onChange={(e) => update({ promptTemplate: e.target.value })}
+            className={inputClassName}
+            disabled={disabled}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            <code>{'{style}'}</code> is replaced with the style prompt, and <code>{'{lat}'}</code>, <code>{'{lng}'}</code> and{' '}
+            <code>{'{zoom}'}</code> with the centre of each tile or mosaic.
+          </p>
+        </div>
+        <div>
+          <label htmlFor="negativePrompt" className="block text-sm font-medium text-gray-300">Negative Prompt</label>
+          <input
+            type="text"
+            id="negativePrompt"
+            value={settings.negativePrompt}
+            onChange={(e) => update({ negativePrompt: e.target.value })}
+            placeholder="e.g., people, cars, watermarks"
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </div>
+        {styleEngine && availableModels.length > 0 && (
+          <div>
+            <label htmlFor="styleModel" className="block text-sm font-medium text-gray-300">Model</label>
+            <select
+              id="styleModel"
+              value={availableModels.includes(settings.model) ? settings.model : styleEngine.model}
+              // The engine's default is stored as empty, so it follows the configured model.
+              onChange={(e) => update({ model: e.target.value === styleEngine.model ? '' : e.target.value })}
+              className={inputClassName}
+              disabled={disabled}
+            >
+              {availableModels.map(model => (
+                <option key={model} value={model}>{model}{model === styleEngine.model ? ' (default)' : ''}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="temperature" className="block text-sm font-medium text-gray-300">Temperature</label>
+            <input
+              type="number"
+              id="temperature"
+              min={0}
+              max={2}
+              step={0.1}
+              value={settings.temperature ?? ''}
+              onChange={(e) => update({ temperature: parseOptionalNumber(e.target.value) })}
+              placeholder="Default"
+              className={inputClassName}
+              disabled={disabled || !supportsSampling}
+            />
+          </div>
+          <div>
+            <label htmlFor="seed" className="block text-sm font-medium text-gray-300">Seed</label>
+            <input
+              type="number"
+              id="seed"
+              step={1}
+              value={settings.seed ?? ''}
+              onChange={(e) => update({ seed: parseOptionalNumber(e.target.value) })}
+              placeholder="Random"
+              className={inputClassName}
+              disabled={disabled || !supportsSampling}
+            />
+          </div>
+        </div>
+        {styleEngine && !supportsSampling && (
+          <p className="text-xs text-gray-500">{styleEngine.name} doesn't support temperature or seed.</p>
+        )}
+        <div>
+          <label htmlFor="variations" className="block text-sm font-medium text-gray-300">Variations per Tile</label>
+          <select
+            id="variations"
+            value={settings.variations}
+            onChange={(e) => update({ variations: Number(e.target.value) })}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(count => (
+              <option key={count} value={count}>{count === 1 ? '1 (no choice)' : `${count} to pick from`}</option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">Each variation is a separate request. Pick one with the numbered buttons on a styled tile.</p>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default AdvancedGenerationSettings;
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { StyleComparison } from '../types';
+import { DEFAULT_SWIPE_POSITION } from '../constants';
+
+interface CompareControlsProps {
+  comparison: StyleComparison;
+  onChange: (comparison: StyleComparison) => void;
+  // Whether any tiles on the map were changed by seam blending, which enables the before/after toggle.
+  hasBlendedTiles: boolean;
+}
+
+const CompareControls: React.FC<CompareControlsProps> = ({ comparison, onChange, hasBlendedTiles }) => {
+  const isSwipeOn = comparison.swipePosition !== null;
+
+  return (
+    <div className="absolute bottom-4 left-4 z-10 flex flex-col gap-2 bg-gray-800/90 border border-gray-700 rounded-md p-3 text-sm text-gray-300 shadow-lg">
+      <button
+        type="button"
+        onClick={() => onChange({ ...comparison, swipePosition: isSwipeOn ? null : DEFAULT_SWIPE_POSITION })}
+        aria-pressed={isSwipeOn}
+        className={`py-1 px-3 rounded-md border font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 ${isSwipeOn ? 'bg-cyan-700 border-cyan-600 text-white' : 'bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600'}`}
+      >
+        Swipe Compare
+      </button>
+      {hasBlendedTiles && (
+        <button
+          type="button"
+          onClick={() => onChange({ ...comparison, showUnblended: !comparison.showUnblended })}
+          aria-pressed={comparison.showUnblended}
+          className={`py-1 px-3 rounded-md border font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 ${comparison.showUnblended ? 'bg-cyan-700 border-cyan-600 text-white' : 'bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600'}`}
+          title="Show the styled tiles as they were before seam blending"
+        >
+          Before Blending
+        </button>
+      )}
+      <label className="flex flex-col gap-1">
+        <span>Style opacity: {Math.round(comparison.styledOpacity * 100)}%</span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={Math.round(comparison.styledOpacity * 100)}
+          onChange={(e) => onChange({ ...comparison, styledOpacity: Number(e.target.value) / 100 })}
+          className="accent-cyan-500"
+        />
+      </label>
+      <p className="text-xs text-gray-500">Hold <kbd className="px-1 rounded bg-gray-700 text-gray-300">O</kbd> to see the original map.</p>
+    </div>
+  );
+};
+
+export default CompareControls;
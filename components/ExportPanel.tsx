@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import type { MapTile } from '../types';
+import { exportGeoreferencedImage } from '../services/georeferencedExport';
+import { exportStyleAsPMTiles } from '../services/tileArchiveExport';
+
+interface ExportPanelProps {
+  tiles: MapTile[];
+  styledTiles: Record<string, string>;
+  styleHash: string;
+  stylePrompt: string;
+  styleModel: string;
+  disabled: boolean;
+}
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ tiles, styledTiles, styleHash, stylePrompt, styleModel, disabled }) => {
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleExportImage = async () => {
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const { width, height, missingTileKeys } = await exportGeoreferencedImage(tiles, styledTiles);
+      let text = `Exported a ${width}x${height} PNG with .pgw and .prj sidecars.`;
+      if (missingTileKeys.length > 0) text += ` ${missingTileKeys.length} tile(s) could not be loaded and are blank.`;
+      setMessage({ text, isError: false });
+    } catch (err) {
+      console.error('Export failed:', err);
+      setMessage({ text: err instanceof Error ? err.message : 'Export failed.', isError: true });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportArchive = async () => {
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const { tileCount, minZoom, maxZoom, filename } = await exportStyleAsPMTiles(styleHash, stylePrompt.trim(), styleModel);
+      const zoomRange = minZoom === maxZoom ? `z${minZoom}` : `z${minZoom}-z${maxZoom}`;
+      setMessage({ text: `Exported ${tileCount} styled tile(s) (${zoomRange}) to ${filename}.`, isError: false });
+    } catch (err) {
+      console.error('Archive export failed:', err);
+      setMessage({ text: err instanceof Error ? err.message : 'Export failed.', isError: true });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold text-indigo-400">Export</h2>
+      <button
+        type="button"
+        onClick={handleExportImage}
+        disabled={disabled || isExporting || tiles.length === 0}
+        className="w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+      >
+        {isExporting ? 'Exporting...' : 'Export Georeferenced PNG'}
+      </button>
+      <button
+        type="button"
+        onClick={handleExportArchive}
+        disabled={disabled || isExporting || !stylePrompt.trim()}
+        title="Packages every tile generated for the current style into a PMTiles archive"
+        className="w-full flex justify-center py-2 px-4 border border-gray-600 rounded-md text-sm font-medium text-gray-300 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        Export Style as PMTiles
+      </button>
+      {message && (
+        <p className={`text-sm ${message.isError ? 'text-red-400' : 'text-gray-400'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,107 @@
+import React from 'react';
+import type { GenerationJob, GenerationJobStatus } from '../types';
+
+interface GenerationQueuePanelProps {
+  jobs: GenerationJob[];
+  onCancel: (id: string) => void;
+  onCancelAll: () => void;
+  onRetry: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<GenerationJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  retrying: 'Waiting to retry',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_COLORS: Record<GenerationJobStatus, string> = {
+  queued: 'text-gray-400',
+  running: 'text-cyan-400',
+  retrying: 'text-amber-400',
+  succeeded: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+const isActive = (job: GenerationJob) => job.status === 'queued' || job.status === 'running' || job.status === 'retrying';
+
+const GenerationQueuePanel: React.FC<GenerationQueuePanelProps> = ({ jobs, onCancel, onCancelAll, onRetry, onClearFinished }) => {
+  const activeCount = jobs.filter(isActive).length;
+  const failedCount = jobs.filter(job => job.status === 'failed').length;
+  const succeededCount = jobs.filter(job => job.status === 'succeeded').length;
+  // Finished jobs pile up in a long batch; the list shows what still needs attention.
+  const listedJobs = jobs.filter(job => job.status !== 'succeeded');
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold text-amber-400">Generation Queue</h2>
+      <p className="text-sm text-gray-400">
+        {activeCount} in progress, {succeededCount} done, {failedCount} failed
+      </p>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onCancelAll}
+          disabled={activeCount === 0}
+          className="flex-1 py-2 px-3 border border-gray-600 rounded-md text-sm font-medium text-gray-300 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-amber-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Cancel All
+        </button>
+        <button
+          type="button"
+          onClick={onClearFinished}
+          disabled={activeCount === jobs.length}
+          className="flex-1 py-2 px-3 border border-gray-600 rounded-md text-sm font-medium text-gray-300 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-amber-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Clear Finished
+        </button>
+      </div>
+      {listedJobs.length > 0 && (
+        <ul className="space-y-2 max-h-72 overflow-y-auto pr-1">
+          {listedJobs.map(job => (
+            <li key={job.id} className="bg-gray-700/50 border border-gray-700 rounded-md px-3 py-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-white truncate">{job.label}</p>
+                  <p className={`text-xs ${STATUS_COLORS[job.status]}`}>
+                    {STATUS_LABELS[job.status]}
+                    {job.attempts > 1 && ` (attempt ${job.attempts})`}
+                  </p>
+                </div>
+                {isActive(job) && (
+                  <button
+                    type="button"
+                    onClick={() => onCancel(job.id)}
+                    className="shrink-0 py-1 px-2 rounded-md text-xs text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-amber-500"
+                    aria-label={`Cancel ${job.label}`}
+                  >
+                    Cancel
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button
+                    type="button"
+                    onClick={() => onRetry(job.id)}
+                    className="shrink-0 py-1 px-2 rounded-md text-xs font-medium text-white bg-amber-600 hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-amber-500"
+                    aria-label={`Retry ${job.label}`}
+                  >
+                    Retry
+                  </button>
+                )}
+              </div>
+              {job.error && job.status !== 'cancelled' && (
+                <p className="mt-1 text-xs text-red-300 break-words line-clamp-3" title={job.error}>{job.error}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GenerationQueuePanel;
@@ -1,27 +1,85 @@
 
-import React, { useState } from 'react';
-import type { LocationState } from '../types';
-import { MIN_ZOOM, MAX_ZOOM } from '../constants';
+import React, { useState, useEffect } from 'react';
+import type { LocationState, GenerationScope, GenerationOptions, GenerationSettings } from '../types';
+import type { Base64Image } from '../services/imageUtils';
+import { imageFileToBase64 } from '../services/imageUtils';
+import type { Geocoder, GeocodeResult } from '../services/geocoders';
+import type { StyleEngine } from '../services/styleEngines';
+import PlaceSearch from './PlaceSearch';
+import AdvancedGenerationSettings from './AdvancedGenerationSettings';
+import { MIN_ZOOM, MAX_ZOOM, REFERENCE_IMAGE_MAX_DIMENSION, MAX_REFERENCE_IMAGES } from '../constants';
 
 interface LocationFormProps {
-  initialLocation: LocationState;
+  // The map's current location, which the fields follow as the map moves.
+  currentLocation: LocationState;
   onSubmit: (location: LocationState) => void;
+  // Null if no geocoder is configured, which hides the place search.
+  geocoder: Geocoder | null;
+  onPlaceSelect: (result: GeocodeResult) => void;
   isLoading: boolean;
-  isApiKeyMissing: boolean;
-  onGenerate: (stylePrompt: string) => void;
+  // Why the configured tile source or style engine can't be used, e.g. a missing API key. Disables the form.
+  configurationError: string | null;
+  onGenerate: (stylePrompt: string, options: GenerationOptions) => void;
   isGenerating: boolean;
+  stylePrompt: string;
+  onStylePromptChange: (stylePrompt: string) => void;
+  referenceImages: Base64Image[];
+  onReferenceImagesChange: (images: Base64Image[]) => void;
+  onClearStyleCache: () => void;
+  // Advanced settings of the active style layer.
+  generationSettings: GenerationSettings;
+  onGenerationSettingsChange: (settings: GenerationSettings) => void;
+  styleEngine: StyleEngine | null;
+  preserveLabels: boolean;
+  onPreserveLabelsChange: (preserveLabels: boolean) => void;
+  // Only tile sources with sessions can serve the label-free and labels-only layers.
+  isLabelPreservationAvailable: boolean;
+  // Whether a region has been drawn on the map, to restyle with the 'region' scope.
+  hasRegion: boolean;
+  // Why the last generate request was turned down, e.g. every target tile is pinned. Null once one goes ahead.
+  generationNotice: string | null;
 }
 
 const LocationForm: React.FC<LocationFormProps> = ({ 
-  initialLocation, 
+  currentLocation, 
   onSubmit, 
+  geocoder,
+  onPlaceSelect,
   isLoading, 
-  isApiKeyMissing, 
+  configurationError,
   onGenerate, 
-  isGenerating 
+  isGenerating,
+  stylePrompt,
+  onStylePromptChange,
+  referenceImages,
+  onReferenceImagesChange,
+  onClearStyleCache,
+  generationSettings,
+  onGenerationSettingsChange,
+  styleEngine,
+  preserveLabels,
+  onPreserveLabelsChange,
+  isLabelPreservationAvailable,
+  hasRegion,
+  generationNotice,
 }) => {
-  const [location, setLocation] = useState<LocationState>(initialLocation);
-  const [stylePrompt, setStylePrompt] = useState<string>('cyberpunk');
+  const [location, setLocation] = useState<LocationState>(currentLocation);
+  const [scope, setScope] = useState<GenerationScope>('center');
+  const [mosaicSize, setMosaicSize] = useState<number>(1);
+  const [matchZoomLevels, setMatchZoomLevels] = useState<boolean>(false);
+  const [blendSeams, setBlendSeams] = useState<boolean>(true);
+  const [referenceError, setReferenceError] = useState<string | null>(null);
+  const isMisconfigured = configurationError !== null;
+
+  // Keep the fields in step with panning, zooming, history navigation and place search.
+  useEffect(() => {
+    setLocation(currentLocation);
+  }, [currentLocation]);
+
+  // A cleared region can't be restyled, so fall back to the central tile.
+  useEffect(() => {
+    if (!hasRegion) setScope(prev => (prev === 'region' ? 'center' : prev));
+  }, [hasRegion]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -36,10 +94,26 @@ const LocationForm: React.FC<LocationFormProps> = ({
     onSubmit(location);
   };
 
+  const handleReferenceFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []).slice(0, MAX_REFERENCE_IMAGES - referenceImages.length);
+    // Reset the input so picking the same file again still fires a change event.
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setReferenceError(null);
+    try {
+      const images = await Promise.all(files.map(file => imageFileToBase64(file, REFERENCE_IMAGE_MAX_DIMENSION)));
+      onReferenceImagesChange([...referenceImages, ...images]);
+    } catch (err) {
+      console.error('Failed to read reference image:', err);
+      setReferenceError(err instanceof Error ? err.message : 'Could not read the selected image.');
+    }
+  };
+
   const handleGenerateSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (stylePrompt.trim()) {
-      onGenerate(stylePrompt);
+      onGenerate(stylePrompt, { scope, mosaicSize, matchZoomLevels, blendSeams });
     }
   };
 
@@ -49,6 +123,13 @@ const LocationForm: React.FC<LocationFormProps> = ({
         <div>
           <h2 className="text-xl font-semibold text-cyan-400 mb-4">Location Controls</h2>
           <div className="space-y-4">
+            {geocoder && (
+              <PlaceSearch
+                geocoder={geocoder}
+                onSelect={onPlaceSelect}
+                disabled={isLoading || isMisconfigured}
+              />
+            )}
             <div>
               <label htmlFor="lat" className="block text-sm font-medium text-gray-300">Latitude</label>
               <input
@@ -59,7 +140,7 @@ const LocationForm: React.FC<LocationFormProps> = ({
                 onChange={handleChange}
                 step="0.0001"
                 className="mt-1 block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-cyan-500 focus:border-cyan-500"
-                disabled={isLoading || isApiKeyMissing || isGenerating}
+                disabled={isLoading || isMisconfigured}
               />
             </div>
             <div>
@@ -72,7 +153,7 @@ const LocationForm: React.FC<LocationFormProps> = ({
                 onChange={handleChange}
                 step="0.0001"
                 className="mt-1 block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-cyan-500 focus:border-cyan-500"
-                disabled={isLoading || isApiKeyMissing || isGenerating}
+                disabled={isLoading || isMisconfigured}
               />
             </div>
             <div>
@@ -86,14 +167,14 @@ const LocationForm: React.FC<LocationFormProps> = ({
                 value={location.zoom}
                 onChange={handleChange}
                 className="mt-1 block w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
-                disabled={isLoading || isApiKeyMissing || isGenerating}
+                disabled={isLoading || isMisconfigured}
               />
             </div>
           </div>
         </div>
         <button
           type="submit"
-          disabled={isLoading || isApiKeyMissing || isGenerating}
+          disabled={isLoading || isMisconfigured}
           className="w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-cyan-600 hover:bg-cyan-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
         >
           {isLoading ? 'Loading...' : 'Update Location'}
@@ -111,22 +192,147 @@ const LocationForm: React.FC<LocationFormProps> = ({
             id="stylePrompt"
             name="stylePrompt"
             value={stylePrompt}
-            onChange={(e) => setStylePrompt(e.target.value)}
+            onChange={(e) => onStylePromptChange(e.target.value)}
             placeholder="e.g., Japanese ukiyo-e woodblock"
             className="mt-1 block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500"
-            disabled={isLoading || isApiKeyMissing || isGenerating}
+            disabled={isLoading || isMisconfigured}
           />
         </div>
+        <div>
+          <label htmlFor="referenceImages" className="block text-sm font-medium text-gray-300">
+            Style References ({referenceImages.length}/{MAX_REFERENCE_IMAGES})
+          </label>
+          {referenceImages.length > 0 && (
+            <div className="mt-2 grid grid-cols-4 gap-2">
+              {referenceImages.map((image, index) => (
+                <div key={index} className="relative group">
+                  <img
+                    src={`data:${image.mimeType};base64,${image.data}`}
+                    alt={`Style reference ${index + 1}`}
+                    className="w-full aspect-square object-cover rounded-md border border-gray-600"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => onReferenceImagesChange(referenceImages.filter((_, i) => i !== index))}
+                    className="absolute top-0.5 right-0.5 w-5 h-5 flex items-center justify-center rounded-full bg-black/70 text-xs text-white hover:bg-red-600"
+                    aria-label={`Remove style reference ${index + 1}`}
+                    title="Remove"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <input
+            type="file"
+            id="referenceImages"
+            name="referenceImages"
+            accept="image/*"
+            multiple
+            onChange={handleReferenceFiles}
+            className="mt-2 block w-full text-sm text-gray-400 file:mr-3 file:py-1.5 file:px-3 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600 disabled:opacity-50"
+            disabled={isLoading || isMisconfigured || referenceImages.length >= MAX_REFERENCE_IMAGES}
+          />
+          {referenceError && <p className="mt-1 text-xs text-red-400">{referenceError}</p>}
+        </div>
+        <div>
+          <label htmlFor="scope" className="block text-sm font-medium text-gray-300">Apply To</label>
+          <select
+            id="scope"
+            name="scope"
+            value={scope}
+            onChange={(e) => setScope(e.target.value as GenerationScope)}
+            className="mt-1 block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500"
+            disabled={isLoading || isMisconfigured}
+          >
+            <option value="center">Central tile</option>
+            <option value="viewport">Whole viewport</option>
+            <option value="region" disabled={!hasRegion}>Drawn region</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="mosaicSize" className="block text-sm font-medium text-gray-300">Tile Blending</label>
+          <select
+            id="mosaicSize"
+            name="mosaicSize"
+            value={mosaicSize}
+            onChange={(e) => setMosaicSize(Number(e.target.value))}
+            className="mt-1 block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500"
+            disabled={isLoading || isMisconfigured || scope === 'center'}
+          >
+            <option value={1}>Each tile separately</option>
+            <option value={2}>Stitched 2x2 mosaics</option>
+            <option value={3}>Stitched 3x3 mosaics</option>
+          </select>
+        </div>
+        <div>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={matchZoomLevels}
+              onChange={(e) => setMatchZoomLevels(e.target.checked)}
+              className="accent-teal-500"
+              disabled={isLoading || isMisconfigured}
+            />
+            Match other zoom levels
+          </label>
+          <p className="mt-1 text-xs text-gray-500">Restyles tiles to continue the styled tiles one level further out, and builds tiles whose styled tiles one level further in are all done from those instead.</p>
+        </div>
+        <div>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={blendSeams}
+              onChange={(e) => setBlendSeams(e.target.checked)}
+              className="accent-teal-500"
+              disabled={isLoading || isMisconfigured}
+            />
+            Blend seams
+          </label>
+          <p className="mt-1 text-xs text-gray-500">Evens out colours against the styled tiles around each new tile and softens the edges between them.</p>
+        </div>
+        {isLabelPreservationAvailable && (
+          <div>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={preserveLabels}
+                onChange={(e) => onPreserveLabelsChange(e.target.checked)}
+                className="accent-teal-500"
+              />
+              Keep original labels
+            </label>
+            <p className="mt-1 text-xs text-gray-500">Restyles the map without its labels, then draws the original labels on top so text stays readable.</p>
+          </div>
+        )}
+        <AdvancedGenerationSettings
+          settings={generationSettings}
+          onChange={onGenerationSettingsChange}
+          styleEngine={styleEngine}
+          disabled={isLoading || isMisconfigured}
+        />
         <button
           type="submit"
-          disabled={isLoading || isApiKeyMissing || isGenerating || !stylePrompt.trim()}
+          disabled={isLoading || isMisconfigured || !stylePrompt.trim()}
           className="w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-teal-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
         >
-          {isGenerating ? 'Generating...' : 'Generate Style'}
+          {isGenerating ? 'Add to Queue' : 'Generate Style'}
+        </button>
+        {generationNotice && (
+          <p className="text-sm text-amber-400" role="status">{generationNotice}</p>
+        )}
+        <button
+          type="button"
+          onClick={onClearStyleCache}
+          disabled={!stylePrompt.trim()}
+          className="w-full flex justify-center py-2 px-4 border border-gray-600 rounded-md text-sm font-medium text-gray-300 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-teal-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Clear Cache for This Style
         </button>
       </form>
-      {isApiKeyMissing && (
-        <p className="mt-4 text-sm text-red-400 text-center">API Key is missing. The application is disabled.</p>
+      {configurationError && (
+        <p className="mt-4 text-sm text-red-400 text-center">{configurationError} The application is disabled.</p>
       )}
     </div>
   );
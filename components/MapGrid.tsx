@@ -1,17 +1,110 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import type { MapTile, MapOffset } from '../types';
-import { TILE_SIZE, VISIBLE_GRID_DIMENSION, FETCH_GRID_DIMENSION, POSITIONING_FACTOR } from '../constants';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useMemo, useRef } from 'react';
+import type { MapTile, MapOffset, GenerationProgress, ViewportSize, StyleComparison, Coordinates, RegionShape } from '../types';
+import { TILE_SIZE, POSITIONING_FACTOR, MAX_OVERZOOM_LEVELS } from '../constants';
+import { getAncestorTile, toTileKey, latLngToPreciseTileXY, preciseTileXYToLatLng, wrapTileX } from '../services/googleMaps';
+import { rectangleOutline } from '../services/regionSelection';
+import TileToolbar from './TileToolbar';
 
 interface MapGridProps {
   tiles: MapTile[];
   isLoading: boolean;
   error: string | null;
   offset: MapOffset;
-  onPanEnd: (panX: number, panY: number) => void;
+  // The size to render the map at, which `offset` was computed for.
+  viewportSize: ViewportSize;
+  // Called for every pointer movement while dragging, with the movement since the previous call.
+  onPan: (dx: number, dy: number) => void;
+  // Called to zoom in (positive delta) or out, keeping the anchor (in pixels from the viewport centre) fixed.
+  onZoom: (delta: number, anchor?: { x: number; y: number }) => void;
+  // Called when a base tile fails to load.
+  onTileError: (key: string) => void;
   styledTiles: Record<string, string>;
+  // Candidates to pick from for tiles generated with variations, keyed by tile key.
+  styledVariants: Record<string, string[]>;
+  onVariantSelect: (tileKey: string, url: string) => void;
   isGenerating: boolean;
+  generationProgress: GenerationProgress | null;
   generationError: string | null;
+  comparison: StyleComparison;
+  // Called while the swipe divider is dragged, with its new position as a fraction of the viewport width.
+  onSwipePositionChange: (position: number) => void;
+  // The styled tile chosen for the version history and pin controls, if any.
+  selectedTileKey: string | null;
+  // Called with the styled tile clicked on, or null when clicking an unstyled tile or pressing Escape.
+  onTileSelect: (tileKey: string | null) => void;
+  // Null if the selected tile has no styled image.
+  selectedTileVersions: { version: number; versionCount: number; isPinned: boolean } | null;
+  onTileUndo: () => void;
+  onTileRedo: () => void;
+  onTilePinToggle: () => void;
+  // While set, pointer input draws a region of this shape instead of panning.
+  regionDrawMode: RegionShape | null;
+  // The outline of the selected region, shown on the map.
+  region: Coordinates[] | null;
+  // Called with the outline's corners when a region has been drawn.
+  onRegionDrawn: (points: Coordinates[]) => void;
+  // Called when Escape is pressed while drawing, before any corner has been placed.
+  onRegionDrawCancel: () => void;
+}
+
+// Accumulated wheel movement, in pixels, that makes one zoom step. Trackpads send many small deltas.
+const WHEEL_ZOOM_THRESHOLD = 100;
+// How far apart two touches must spread (or pinch together) relative to their starting distance to zoom one level.
+const PINCH_ZOOM_RATIO = 2;
+// How far the arrow keys pan the map, in pixels.
+const KEYBOARD_PAN_STEP = 64;
+// How long the scaling animation between zoom levels lasts, in milliseconds.
+const ZOOM_ANIMATION_MS = 250;
+// Holding this key hides the styled tiles, to peek at the original map.
+const PEEK_KEY = 'o';
+// How far the arrow keys move the swipe divider, as a fraction of the viewport width.
+const KEYBOARD_SWIPE_STEP = 0.05;
+// How far a pointer may move between press and release, in pixels, for it to count as a click rather than a pan.
+const CLICK_MOVE_TOLERANCE = 4;
+// How close, in pixels, a press must be to a polygon's first corner to close it.
+const POLYGON_CLOSE_DISTANCE = 10;
+
+/**
+ * The previous zoom level's tiles, shown scaled underneath the current level until its tiles have loaded.
+ */
+interface ZoomPlaceholder {
+  tiles: MapTile[];
+  styledTiles: Record<string, string>;
+  zoom: number;
+  origin: { x: number; y: number };
+}
+
+/**
+ * A styled tile from a lower zoom level, cropped to the part that covers a tile and scaled up to fill it.
+ */
+interface OverzoomedStyledTile {
+  url: string;
+  levels: number;
+}
+
+/**
+ * Recovers the tile layer origin, the tile that grid position (0, 0) refers to. The first tile may have wrapped
+ * around the antimeridian, so the origin is wrapped back into the world.
+ */
+const getTileOrigin = (tiles: MapTile[]) => ({ x: wrapTileX(tiles[0].x - tiles[0].gridX, tiles[0].zoom), y: tiles[0].y - tiles[0].gridY });
+
+/**
+ * Finds the nearest ancestor of a tile that has been styled, within `MAX_OVERZOOM_LEVELS` zoom levels.
+ */
+const findOverzoomedStyledTile = (tile: MapTile, styledTiles: Record<string, string>): OverzoomedStyledTile | undefined => {
+  for (let levels = 1; levels <= MAX_OVERZOOM_LEVELS; levels++) {
+    const ancestor = getAncestorTile(tile.zoom, tile.x, tile.y, levels);
+    if (!ancestor) return undefined;
+    const url = styledTiles[toTileKey(ancestor.zoom, ancestor.x, ancestor.y)];
+    if (url) return { url, levels };
+  }
+  return undefined;
+};
+
+interface PointerPosition {
+  x: number;
+  y: number;
 }
 
 const Spinner: React.FC = () => (
@@ -21,11 +114,19 @@ const Spinner: React.FC = () => (
 interface MemoizedTileProps {
   tile: MapTile;
   styledUrl?: string;
-  onLoad: () => void;
-  onError: () => void;
+  // Shown until the tile has a styled image of its own.
+  overzoomedStyled?: OverzoomedStyledTile;
+  // Hidden while the previous zoom level is shown underneath as a placeholder.
+  showLoadingIndicator: boolean;
+  // Whether the styled images are clipped to the swipe divider.
+  isSwipeActive: boolean;
+  variants?: string[];
+  onVariantSelect: (tileKey: string, url: string) => void;
+  onLoad: (key: string) => void;
+  onError: (key: string) => void;
 }
 
-const MemoizedTile: React.FC<MemoizedTileProps> = React.memo(({ tile, styledUrl, onLoad, onError }) => {
+const MemoizedTile: React.FC<MemoizedTileProps> = React.memo(({ tile, styledUrl, overzoomedStyled, showLoadingIndicator, isSwipeActive, variants, onVariantSelect, onLoad, onError }) => {
   const [status, setStatus] = useState<'loading' | 'loaded' | 'error'>('loading');
   const [styledStatus, setStyledStatus] = useState<'loading' | 'loaded' | 'error'>('loading');
 
@@ -43,8 +144,8 @@ const MemoizedTile: React.FC<MemoizedTileProps> = React.memo(({ tile, styledUrl,
 
   const handleLoad = useCallback(() => {
     setStatus('loaded');
-    onLoad();
-  }, [onLoad]);
+    onLoad(tile.key);
+  }, [onLoad, tile.key]);
 
   const handleError = useCallback(() => {
     console.error(
@@ -56,7 +157,7 @@ const MemoizedTile: React.FC<MemoizedTileProps> = React.memo(({ tile, styledUrl,
       }
     );
     setStatus('error');
-    onError();
+    onError(tile.key);
   }, [onError, tile]);
   
   useEffect(() => {
@@ -71,7 +172,7 @@ const MemoizedTile: React.FC<MemoizedTileProps> = React.memo(({ tile, styledUrl,
 
   return (
     <div style={commonStyle}>
-      {status === 'loading' && (
+      {status === 'loading' && showLoadingIndicator && (
         <div className="absolute inset-0 bg-gray-800/50 flex items-center justify-center">
           <div className="border-2 border-gray-500 border-t-cyan-400 rounded-full w-6 h-6 animate-spin"></div>
         </div>
@@ -91,68 +192,474 @@ const MemoizedTile: React.FC<MemoizedTileProps> = React.memo(({ tile, styledUrl,
         alt={`Map tile at ${tile.gridX}, ${tile.gridY}`}
         onLoad={handleLoad}
         onError={handleError}
+        draggable={false}
         className="absolute transition-opacity duration-300"
         style={{ opacity: status === 'loaded' ? 1 : 0 }}
       />
-      {styledUrl && (
-        <img
-          src={styledUrl}
-          alt={`Styled map tile at ${tile.gridX}, ${tile.gridY}`}
-          onLoad={() => setStyledStatus('loaded')}
-          onError={() => setStyledStatus('error')}
-          className="absolute transition-opacity duration-500"
-          style={{ opacity: styledStatus === 'loaded' ? 1 : 0 }}
-        />
+      {(styledUrl || overzoomedStyled) && (
+        <div
+          className="absolute inset-0"
+          style={{
+            // Both are set on the map by the comparison controls.
+            opacity: 'var(--styled-opacity, 1)',
+            // With the swipe divider on, the styled map only shows right of it. `--swipe-x` is in tile layer pixels.
+            clipPath: isSwipeActive ? `inset(0 0 0 clamp(0px, calc(var(--swipe-x) - ${left}px), ${TILE_SIZE}px))` : undefined,
+          }}
+        >
+          {overzoomedStyled && (() => {
+            const scale = Math.pow(2, overzoomedStyled.levels);
+            // The tile's position within its ancestor, in tiles of this zoom level.
+            const column = ((tile.x % scale) + scale) % scale;
+            const row = ((tile.y % scale) + scale) % scale;
+            return (
+              <div
+                className="absolute inset-0"
+                style={{
+                  backgroundImage: `url("${overzoomedStyled.url}")`,
+                  backgroundSize: `${TILE_SIZE * scale}px ${TILE_SIZE * scale}px`,
+                  backgroundPosition: `${-column * TILE_SIZE}px ${-row * TILE_SIZE}px`,
+                }}
+                aria-hidden="true"
+              />
+            );
+          })()}
+          {styledUrl && (
+            <img
+              src={styledUrl}
+              alt={`Styled map tile at ${tile.gridX}, ${tile.gridY}`}
+              onLoad={() => setStyledStatus('loaded')}
+              onError={() => setStyledStatus('error')}
+              draggable={false}
+              className="absolute transition-opacity duration-500"
+              style={{ opacity: styledStatus === 'loaded' ? 1 : 0 }}
+            />
+          )}
+          {/* In label-preserving mode the styled image has no text; the original labels go back on top of it. */}
+          {tile.labelsUrl && ((styledUrl && styledStatus === 'loaded') || overzoomedStyled) && (
+            <img src={tile.labelsUrl} alt="" draggable={false} className="absolute pointer-events-none" />
+          )}
+        </div>
+      )}
+      {styledUrl && variants && (
+        <div
+          className="absolute bottom-1 left-1/2 -translate-x-1/2 flex gap-1 bg-black/60 rounded-full p-1"
+          // Keeps a click on the picker from starting a pan.
+          onPointerDown={(e) => e.stopPropagation()}
+          role="group"
+          aria-label={`Variations for tile ${tile.key}`}
+        >
+          {variants.map((url, index) => (
+            <button
+              key={index}
+              type="button"
+              onClick={() => onVariantSelect(tile.key, url)}
+              aria-pressed={url === styledUrl}
+              className={`w-5 h-5 rounded-full text-xs font-medium ${url === styledUrl ? 'bg-cyan-500 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+              title={`Use variation ${index + 1}`}
+            >
+              {index + 1}
+            </button>
+          ))}
+        </div>
       )}
     </div>
   );
-});
+}, (prev, next) =>
+  // Tile objects are rebuilt whenever the visible set changes, so compare by value to keep unchanged tiles still.
+  prev.tile.key === next.tile.key &&
+  prev.tile.url === next.tile.url &&
+  prev.tile.labelsUrl === next.tile.labelsUrl &&
+  prev.tile.gridX === next.tile.gridX &&
+  prev.tile.gridY === next.tile.gridY &&
+  prev.styledUrl === next.styledUrl &&
+  prev.overzoomedStyled?.url === next.overzoomedStyled?.url &&
+  prev.overzoomedStyled?.levels === next.overzoomedStyled?.levels &&
+  prev.showLoadingIndicator === next.showLoadingIndicator &&
+  prev.isSwipeActive === next.isSwipeActive &&
+  prev.variants === next.variants &&
+  prev.onVariantSelect === next.onVariantSelect &&
+  prev.onLoad === next.onLoad &&
+  prev.onError === next.onError
+);
 
-const MapGrid: React.FC<MapGridProps> = ({ tiles, isLoading, error, offset, onPanEnd, styledTiles, isGenerating, generationError }) => {
-  const [errorTiles, setErrorTiles] = useState(0);
+const MapGrid: React.FC<MapGridProps> = ({ tiles, isLoading, error, offset, viewportSize, onPan, onZoom, onTileError, styledTiles, styledVariants, onVariantSelect, isGenerating, generationProgress, generationError, comparison, onSwipePositionChange, selectedTileKey, onTileSelect, selectedTileVersions, onTileUndo, onTileRedo, onTilePinToggle, regionDrawMode, region, onRegionDrawn, onRegionDrawCancel }) => {
+  const [errorTileKeys, setErrorTileKeys] = useState<Set<string>>(new Set());
   const [isPanning, setIsPanning] = useState(false);
-  const [panStart, setPanStart] = useState<{ x: number; y: number } | null>(null);
-  const [panOffset, setPanOffset] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
+  // The viewport is only rendered once tiles exist, so it is tracked with a callback ref to attach the wheel listener.
+  const [viewportElement, setViewportElement] = useState<HTMLDivElement | null>(null);
+  // The last known position of every pointer (mouse, pen or finger) currently pressed on the map.
+  const pointersRef = useRef<Map<number, PointerPosition>>(new Map());
+  // The distance between two touches when the pinch started or last changed the zoom.
+  const pinchDistanceRef = useRef<number | null>(null);
+  const wheelDeltaRef = useRef(0);
+  // How far the pointers have moved since the first one was pressed, to tell a click from a pan.
+  const pressMovementRef = useRef(0);
+  // Tiles of the current zoom level that have finished loading, successfully or not.
+  const [settledTileKeys, setSettledTileKeys] = useState<Set<string>>(new Set());
+  const [placeholder, setPlaceholder] = useState<ZoomPlaceholder | null>(null);
+  // The zoom level, tiles and offset of the previous render, to detect zoom changes and animate from them.
+  const lastLevelRef = useRef<{ zoom: number; tiles: MapTile[]; offset: MapOffset; styledTiles: Record<string, string> } | null>(null);
+  const layersRef = useRef<HTMLDivElement>(null);
+  const [isPeeking, setIsPeeking] = useState(false);
+  // The region being drawn: the corners placed so far and where the pointer is.
+  const [draft, setDraft] = useState<{ points: Coordinates[]; cursor: Coordinates | null } | null>(null);
+  // Where a rectangle drag started, in client pixels.
+  const drawStartRef = useRef<PointerPosition | null>(null);
 
-  useEffect(() => {
-    setErrorTiles(0);
-    setPanOffset({ x: 0, y: 0 });
-  }, [tiles]);
+  const handleTileLoad = useCallback((key: string) => {
+    setSettledTileKeys(prev => new Set(prev).add(key));
+    setErrorTileKeys(prev => {
+      if (!prev.has(key)) return prev;
+      const next = new Set(prev);
+      next.delete(key);
+      return next;
+    });
+  }, []);
 
-  const handleTileLoad = useCallback(() => {}, []);
+  const handleTileError = useCallback((key: string) => {
+    setSettledTileKeys(prev => new Set(prev).add(key));
+    setErrorTileKeys(prev => new Set(prev).add(key));
+    onTileError(key);
+  }, [onTileError]);
 
-  const handleTileError = useCallback(() => {
-    setErrorTiles(count => count + 1);
+  /**
+   * Converts a client position to pixels relative to the viewport centre, the anchor format `onZoom` expects.
+   */
+  const toAnchor = useCallback((clientX: number, clientY: number, element: HTMLElement) => {
+    const rect = element.getBoundingClientRect();
+    return { x: clientX - rect.left - rect.width / 2, y: clientY - rect.top - rect.height / 2 };
   }, []);
 
-  const handleMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
     e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.currentTarget.focus();
+    if (pointersRef.current.size === 0) pressMovementRef.current = 0;
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    pinchDistanceRef.current = null;
     setIsPanning(true);
-    setPanStart({ x: e.clientX, y: e.clientY });
   }, []);
 
-  const handleMouseMove = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
-    if (!isPanning || !panStart) return;
-    const dx = e.clientX - panStart.x;
-    const dy = e.clientY - panStart.y;
-    setPanOffset({ x: dx, y: dy });
-  }, [isPanning, panStart]);
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    const pointers: Map<number, PointerPosition> = pointersRef.current;
+    const last = pointers.get(e.pointerId);
+    if (!last) return;
+    pressMovementRef.current += Math.hypot(e.clientX - last.x, e.clientY - last.y);
 
-  const endPan = useCallback(() => {
-    if (!isPanning) return;
-    onPanEnd(panOffset.x, panOffset.y);
-    setIsPanning(false);
-    setPanStart(null);
-  }, [isPanning, onPanEnd, panOffset]);
+    if (pointers.size === 1) {
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      onPan(e.clientX - last.x, e.clientY - last.y);
+      return;
+    }
 
-  const handleMouseUp = useCallback(() => {
-    endPan();
-  }, [endPan]);
+    // With two or more pointers down, the first two drive a pinch: the midpoint pans and the spread zooms.
+    const [first, second] = Array.from(pointers.values());
+    const previousMid = { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 };
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const [a, b] = Array.from(pointers.values());
+    const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const distance = Math.hypot(a.x - b.x, a.y - b.y);
 
-  const handleMouseLeave = useCallback(() => {
-    endPan();
-  }, [endPan]);
+    onPan(mid.x - previousMid.x, mid.y - previousMid.y);
 
+    if (pinchDistanceRef.current === null || pinchDistanceRef.current === 0) {
+      pinchDistanceRef.current = distance;
+      return;
+    }
+    const ratio = distance / pinchDistanceRef.current;
+    if (ratio >= PINCH_ZOOM_RATIO || ratio <= 1 / PINCH_ZOOM_RATIO) {
+      onZoom(ratio > 1 ? 1 : -1, toAnchor(mid.x, mid.y, e.currentTarget));
+      pinchDistanceRef.current = distance;
+    }
+  }, [onPan, onZoom, toAnchor]);
+
+  /**
+   * Selects the styled tile under a client position, or clears the selection if that tile isn't styled.
+   */
+  const selectTileAt = useCallback((clientX: number, clientY: number, element: HTMLElement) => {
+    const rect = element.getBoundingClientRect();
+    const gridX = Math.floor((clientX - rect.left - offset.x) / (TILE_SIZE * POSITIONING_FACTOR));
+    const gridY = Math.floor((clientY - rect.top - offset.y) / (TILE_SIZE * POSITIONING_FACTOR));
+    const tile = tiles.find(t => t.gridX === gridX && t.gridY === gridY);
+    onTileSelect(tile && styledTiles[tile.key] ? tile.key : null);
+  }, [tiles, offset, styledTiles, onTileSelect]);
+
+  const handlePointerEnd = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    const pointers: Map<number, PointerPosition> = pointersRef.current;
+    const wasSinglePointer = pointers.size === 1;
+    if (!pointers.delete(e.pointerId)) return;
+    pinchDistanceRef.current = null;
+    if (pointers.size === 0) setIsPanning(false);
+    if (e.type === 'pointerup' && wasSinglePointer && pressMovementRef.current < CLICK_MOVE_TOLERANCE) {
+      selectTileAt(e.clientX, e.clientY, e.currentTarget);
+    }
+  }, [selectTileAt]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
+    switch (e.key) {
+      // Arrow keys move the view in the arrow's direction, so the map itself moves the other way.
+      case 'ArrowLeft': onPan(KEYBOARD_PAN_STEP, 0); break;
+      case 'ArrowRight': onPan(-KEYBOARD_PAN_STEP, 0); break;
+      case 'ArrowUp': onPan(0, KEYBOARD_PAN_STEP); break;
+      case 'ArrowDown': onPan(0, -KEYBOARD_PAN_STEP); break;
+      case '+':
+      case '=': onZoom(1); break;
+      case '-':
+      case '_': onZoom(-1); break;
+      case 'Escape':
+        if (regionDrawMode) {
+          if (draft) {
+            setDraft(null);
+          } else {
+            onRegionDrawCancel();
+          }
+          break;
+        }
+        if (selectedTileKey === null) return;
+        onTileSelect(null);
+        break;
+      case 'Enter':
+        if (regionDrawMode !== 'polygon' || !draft || draft.points.length < 3) return;
+        onRegionDrawn(draft.points);
+        setDraft(null);
+        break;
+      // Undo and redo act on the selected tile, with the usual editor shortcuts.
+      case 'z':
+      case 'Z':
+        if (!(e.ctrlKey || e.metaKey) || !selectedTileVersions) return;
+        if (e.shiftKey) {
+          onTileRedo();
+        } else {
+          onTileUndo();
+        }
+        break;
+      case 'y':
+        if (!(e.ctrlKey || e.metaKey) || !selectedTileVersions) return;
+        onTileRedo();
+        break;
+      default: return;
+    }
+    e.preventDefault();
+  }, [onPan, onZoom, selectedTileKey, selectedTileVersions, onTileSelect, onTileUndo, onTileRedo, regionDrawMode, draft, onRegionDrawn, onRegionDrawCancel]);
+
+  useEffect(() => {
+    setDraft(null);
+  }, [regionDrawMode]);
+
+  /**
+   * Converts a client position to latitude and longitude, through the tile layer's position.
+   */
+  const clientToLatLng = useCallback((clientX: number, clientY: number, element: HTMLElement): Coordinates | null => {
+    if (tiles.length === 0) return null;
+    const rect = element.getBoundingClientRect();
+    const origin = getTileOrigin(tiles);
+    return preciseTileXYToLatLng(
+      origin.x + (clientX - rect.left - offset.x) / TILE_SIZE,
+      origin.y + (clientY - rect.top - offset.y) / TILE_SIZE,
+      tiles[0].zoom,
+    );
+  }, [tiles, offset]);
+
+  /**
+   * Converts latitude and longitude to a client position, the inverse of `clientToLatLng`.
+   */
+  const latLngToClient = useCallback((point: Coordinates, element: HTMLElement): PointerPosition => {
+    const rect = element.getBoundingClientRect();
+    const origin = getTileOrigin(tiles);
+    const tileXY = latLngToPreciseTileXY(point.lat, point.lng, tiles[0].zoom);
+    return {
+      x: rect.left + offset.x + (tileXY.x - origin.x) * TILE_SIZE,
+      y: rect.top + offset.y + (tileXY.y - origin.y) * TILE_SIZE,
+    };
+  }, [tiles, offset]);
+
+  // A rectangle is dragged out; a polygon gets a corner per press and closes on its first corner, a
+  // double-click or Enter.
+  const handleDrawPointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.focus();
+    const point = clientToLatLng(e.clientX, e.clientY, e.currentTarget);
+    if (!point) return;
+
+    if (regionDrawMode === 'rectangle') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      drawStartRef.current = { x: e.clientX, y: e.clientY };
+      setDraft({ points: [point], cursor: point });
+      return;
+    }
+
+    const points = draft?.points ?? [];
+    const distanceTo = (corner: Coordinates) => {
+      const position = latLngToClient(corner, e.currentTarget);
+      return Math.hypot(position.x - e.clientX, position.y - e.clientY);
+    };
+    if (points.length >= 3 && distanceTo(points[0]) < POLYGON_CLOSE_DISTANCE) {
+      onRegionDrawn(points);
+      setDraft(null);
+      return;
+    }
+    // The second press of a double-click lands on the corner the first one placed.
+    if (points.length > 0 && distanceTo(points[points.length - 1]) < POLYGON_CLOSE_DISTANCE) return;
+    setDraft({ points: [...points, point], cursor: point });
+  }, [regionDrawMode, draft, clientToLatLng, latLngToClient, onRegionDrawn]);
+
+  const handleDrawPointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (!draft) return;
+    if (regionDrawMode === 'rectangle' && !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const cursor = clientToLatLng(e.clientX, e.clientY, e.currentTarget);
+    setDraft(prev => (prev ? { ...prev, cursor } : prev));
+  }, [draft, regionDrawMode, clientToLatLng]);
+
+  const handleDrawPointerEnd = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    const start = drawStartRef.current;
+    if (regionDrawMode !== 'rectangle' || !draft || !start) return;
+    drawStartRef.current = null;
+    const corner = clientToLatLng(e.clientX, e.clientY, e.currentTarget);
+    setDraft(null);
+    // A press without a drag doesn't make a region.
+    if (e.type !== 'pointerup' || !corner || Math.hypot(e.clientX - start.x, e.clientY - start.y) < CLICK_MOVE_TOLERANCE) return;
+    onRegionDrawn(rectangleOutline(draft.points[0], corner));
+  }, [regionDrawMode, draft, clientToLatLng, onRegionDrawn]);
+
+  const handleDrawDoubleClick = useCallback(() => {
+    if (regionDrawMode !== 'polygon' || !draft || draft.points.length < 3) return;
+    onRegionDrawn(draft.points);
+    setDraft(null);
+  }, [regionDrawMode, draft, onRegionDrawn]);
+
+  useEffect(() => {
+    if (!viewportElement) return;
+
+    // React registers wheel listeners as passive, so page scrolling can only be prevented with a native listener.
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      // Line and page deltas (e.g. Firefox mouse wheels) are converted to roughly equivalent pixels.
+      const scale = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? 40 : e.deltaMode === WheelEvent.DOM_DELTA_PAGE ? 800 : 1;
+      wheelDeltaRef.current += e.deltaY * scale;
+      if (Math.abs(wheelDeltaRef.current) < WHEEL_ZOOM_THRESHOLD) return;
+
+      const delta = wheelDeltaRef.current < 0 ? 1 : -1;
+      wheelDeltaRef.current = 0;
+      onZoom(delta, toAnchor(e.clientX, e.clientY, viewportElement));
+    };
+
+    viewportElement.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewportElement.removeEventListener('wheel', handleWheel);
+  }, [viewportElement, onZoom, toAnchor]);
+
+  // The peek key works wherever focus is, except while typing.
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === PEEK_KEY && !e.ctrlKey && !e.metaKey && !e.altKey && !isTyping(e.target)) setIsPeeking(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === PEEK_KEY) setIsPeeking(false);
+    };
+    // The key-up is lost if the window loses focus while the key is held.
+    const handleBlur = () => setIsPeeking(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  const moveSwipeDivider = useCallback((clientX: number) => {
+    if (!viewportElement) return;
+    const rect = viewportElement.getBoundingClientRect();
+    onSwipePositionChange(Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)));
+  }, [viewportElement, onSwipePositionChange]);
+
+  // The divider handles its own pointer events, so dragging it doesn't pan the map underneath.
+  const handleDividerPointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.currentTarget.focus();
+  }, []);
+
+  const handleDividerPointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) moveSwipeDivider(e.clientX);
+  }, [moveSwipeDivider]);
+
+  const handleDividerKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (comparison.swipePosition === null) return;
+    const step = e.key === 'ArrowLeft' ? -KEYBOARD_SWIPE_STEP : e.key === 'ArrowRight' ? KEYBOARD_SWIPE_STEP : 0;
+    if (step === 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    onSwipePositionChange(Math.min(1, Math.max(0, comparison.swipePosition + step)));
+  }, [comparison.swipePosition, onSwipePositionChange]);
+
+  const currentZoom = tiles.length > 0 ? tiles[0].zoom : null;
+
+  // Runs before paint, so the first frame at a new zoom level already shows the placeholder and starting scale.
+  useLayoutEffect(() => {
+    const last = lastLevelRef.current;
+    if (currentZoom !== null) {
+      lastLevelRef.current = { zoom: currentZoom, tiles, offset, styledTiles };
+    }
+    if (!last || currentZoom === null || last.zoom === currentZoom || last.tiles.length === 0) return;
+
+    // If the previous level never finished loading, keep the older placeholder unless it is too far off to be useful.
+    setPlaceholder(prev => {
+      if (prev && Math.abs(currentZoom - prev.zoom) <= MAX_OVERZOOM_LEVELS) return prev;
+      const lastKeys = new Set(last.tiles.map(t => t.key));
+      return {
+        tiles: last.tiles,
+        styledTiles: Object.fromEntries(Object.entries(last.styledTiles).filter(([key]) => lastKeys.has(key))),
+        zoom: last.zoom,
+        origin: getTileOrigin(last.tiles),
+      };
+    });
+    setSettledTileKeys(new Set());
+
+    const layers = layersRef.current;
+    if (!layers) return;
+
+    // The point that stays fixed on screen between the two levels, found from both levels' layouts:
+    // a point p in the old layer lies at p * scale + (oldOrigin * scale - newOrigin) * TILE_SIZE in the new one.
+    const scale = Math.pow(2, currentZoom - last.zoom);
+    const oldOrigin = getTileOrigin(last.tiles);
+    const newOrigin = getTileOrigin(tiles);
+    const anchorX = (offset.x - last.offset.x * scale + (oldOrigin.x * scale - newOrigin.x) * TILE_SIZE) / (1 - scale);
+    const anchorY = (offset.y - last.offset.y * scale + (oldOrigin.y * scale - newOrigin.y) * TILE_SIZE) / (1 - scale);
+
+    // Start scaled so the new level lines up with what was on screen, then ease to its natural size.
+    layers.style.transition = 'none';
+    layers.style.transformOrigin = `${anchorX}px ${anchorY}px`;
+    layers.style.transform = `scale(${1 / scale})`;
+    layers.getBoundingClientRect(); // Commit the starting transform so the change below animates.
+    layers.style.transition = `transform ${ZOOM_ANIMATION_MS}ms ease-out`;
+    layers.style.transform = '';
+  }, [currentZoom, tiles, offset, styledTiles]);
+
+  useEffect(() => {
+    if (placeholder && tiles.every(tile => settledTileKeys.has(tile.key))) {
+      setPlaceholder(null);
+    }
+  }, [placeholder, tiles, settledTileKeys]);
+
+  const overzoomedStyledTiles = useMemo(() => {
+    const result: Record<string, OverzoomedStyledTile> = {};
+    for (const tile of tiles) {
+      if (styledTiles[tile.key]) continue;
+      const overzoomed = findOverzoomedStyledTile(tile, styledTiles);
+      if (overzoomed) result[tile.key] = overzoomed;
+    }
+    return result;
+  }, [tiles, styledTiles]);
 
   if (isLoading && tiles.length === 0) {
     return (
@@ -181,53 +688,182 @@ const MapGrid: React.FC<MapGridProps> = ({ tiles, isLoading, error, offset, onPa
     );
   }
 
-  const stepDistance = TILE_SIZE * POSITIONING_FACTOR;
-  
-  const viewportWidth = (VISIBLE_GRID_DIMENSION - 1) * stepDistance + TILE_SIZE;
-  const viewportHeight = (VISIBLE_GRID_DIMENSION - 1) * stepDistance + TILE_SIZE;
-  
-  const gridContainerWidth = (FETCH_GRID_DIMENSION - 1) * stepDistance + TILE_SIZE;
-  const gridContainerHeight = (FETCH_GRID_DIMENSION - 1) * stepDistance + TILE_SIZE;
-
   const totalTiles = tiles.length;
+  const errorTiles = tiles.filter(tile => errorTileKeys.has(tile.key)).length;
   const showMassFailureError = !isLoading && totalTiles > 0 && errorTiles / totalTiles > 0.5;
+  const swipeX = comparison.swipePosition === null ? null : comparison.swipePosition * viewportSize.width;
 
   return (
     <div
-      className={`relative overflow-hidden bg-black select-none ${isPanning ? 'cursor-grabbing' : 'cursor-grab'}`}
-      style={{ width: `${viewportWidth}px`, height: `${viewportHeight}px` }}
-      onMouseDown={handleMouseDown}
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseLeave}
+      ref={setViewportElement}
+      className={`relative overflow-hidden bg-black select-none touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-500 ${regionDrawMode ? 'cursor-crosshair' : isPanning ? 'cursor-grabbing' : 'cursor-grab'}`}
+      style={{
+        width: `${viewportSize.width}px`,
+        height: `${viewportSize.height}px`,
+        '--styled-opacity': isPeeking ? 0 : comparison.styledOpacity,
+      } as React.CSSProperties}
+      onPointerDown={regionDrawMode ? handleDrawPointerDown : handlePointerDown}
+      onPointerMove={regionDrawMode ? handleDrawPointerMove : handlePointerMove}
+      onPointerUp={regionDrawMode ? handleDrawPointerEnd : handlePointerEnd}
+      onPointerCancel={regionDrawMode ? handleDrawPointerEnd : handlePointerEnd}
+      onDoubleClick={handleDrawDoubleClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={0}
       role="application"
       aria-roledescription="interactive map"
+      aria-label="Map. Drag or use the arrow keys to pan; scroll, pinch or press + and - to zoom. Click a styled tile for its versions."
     >
-      <div
-        className="absolute top-0 left-0"
-        style={{
-          width: `${gridContainerWidth}px`,
-          height: `${gridContainerHeight}px`,
-          transform: `translate(${offset.x + panOffset.x}px, ${offset.y + panOffset.y}px)`,
-          transition: isPanning ? 'none' : 'transform 0.2s ease-out',
-        }}
-      >
-        {tiles.map(tile => (
-          <MemoizedTile 
-            tile={tile} 
-            key={tile.key}
-            styledUrl={styledTiles[tile.key]}
-            onLoad={handleTileLoad} 
-            onError={handleTileError} 
-          />
-        ))}
+      <div ref={layersRef} className="absolute inset-0">
+        {placeholder && currentZoom !== null && (() => {
+          // Place the old level's layer so its tiles cover the same ground as the current level's.
+          const scale = Math.pow(2, currentZoom - placeholder.zoom);
+          const origin = getTileOrigin(tiles);
+          const x = offset.x + (placeholder.origin.x * scale - origin.x) * TILE_SIZE;
+          const y = offset.y + (placeholder.origin.y * scale - origin.y) * TILE_SIZE;
+          return (
+            <div
+              className="absolute top-0 left-0"
+              style={{ transform: `translate(${x}px, ${y}px) scale(${scale})`, transformOrigin: '0 0' }}
+              aria-hidden="true"
+            >
+              {placeholder.tiles.map(tile => (
+                <div
+                  key={tile.key}
+                  className="absolute"
+                  style={{ left: `${tile.gridX * TILE_SIZE * POSITIONING_FACTOR}px`, top: `${tile.gridY * TILE_SIZE * POSITIONING_FACTOR}px`, width: `${TILE_SIZE}px`, height: `${TILE_SIZE}px` }}
+                >
+                  <img src={tile.url} alt="" draggable={false} className="absolute" />
+                  {placeholder.styledTiles[tile.key] && (
+                    <div className="absolute inset-0" style={{ opacity: 'var(--styled-opacity, 1)' }}>
+                      <img src={placeholder.styledTiles[tile.key]} alt="" draggable={false} className="absolute" />
+                      {tile.labelsUrl && <img src={tile.labelsUrl} alt="" draggable={false} className="absolute" />}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          );
+        })()}
+        <div
+          className="absolute top-0 left-0"
+          style={{
+            // Tiles are positioned relative to the layer's origin and may lie on either side of it.
+            transform: `translate(${offset.x}px, ${offset.y}px)`,
+            // The divider's position in this layer's coordinates, for the tiles to clip their styled images to.
+            ...(swipeX !== null && { '--swipe-x': `${swipeX - offset.x}px` }),
+          } as React.CSSProperties}
+        >
+          {tiles.map(tile => (
+            <MemoizedTile 
+              tile={tile} 
+              key={tile.key}
+              styledUrl={styledTiles[tile.key]}
+              overzoomedStyled={overzoomedStyledTiles[tile.key]}
+              showLoadingIndicator={!placeholder}
+              isSwipeActive={swipeX !== null}
+              variants={styledVariants[tile.key]}
+              onVariantSelect={onVariantSelect}
+              onLoad={handleTileLoad} 
+              onError={handleTileError} 
+            />
+          ))}
+          {selectedTileVersions && (() => {
+            const selectedTile = tiles.find(tile => tile.key === selectedTileKey);
+            if (!selectedTile) return null;
+            return (
+              <div
+                className="absolute z-10 ring-2 ring-inset ring-cyan-400 pointer-events-none"
+                style={{
+                  left: `${selectedTile.gridX * TILE_SIZE * POSITIONING_FACTOR}px`,
+                  top: `${selectedTile.gridY * TILE_SIZE * POSITIONING_FACTOR}px`,
+                  width: `${TILE_SIZE}px`,
+                  height: `${TILE_SIZE}px`,
+                }}
+              >
+                <div className="absolute top-1 left-1 pointer-events-auto">
+                  <TileToolbar
+                    version={selectedTileVersions.version}
+                    versionCount={selectedTileVersions.versionCount}
+                    isPinned={selectedTileVersions.isPinned}
+                    onUndo={onTileUndo}
+                    onRedo={onTileRedo}
+                    onTogglePin={onTilePinToggle}
+                  />
+                </div>
+              </div>
+            );
+          })()}
+          {(region || draft) && currentZoom !== null && (() => {
+            const origin = getTileOrigin(tiles);
+            const toSvgPoints = (points: Coordinates[]) => points.map(point => {
+              const tileXY = latLngToPreciseTileXY(point.lat, point.lng, currentZoom);
+              return `${(tileXY.x - origin.x) * TILE_SIZE},${(tileXY.y - origin.y) * TILE_SIZE}`;
+            }).join(' ');
+            const draftPoints = draft && (regionDrawMode === 'rectangle'
+              ? rectangleOutline(draft.points[0], draft.cursor ?? draft.points[0])
+              : [...draft.points, ...(draft.cursor ? [draft.cursor] : [])]);
+            return (
+              <svg className="absolute top-0 left-0 z-10 overflow-visible pointer-events-none" width={1} height={1} aria-hidden="true">
+                {region && !draftPoints && (
+                  <polygon points={toSvgPoints(region)} fill="rgba(34, 211, 238, 0.15)" stroke="rgb(103, 232, 249)" strokeWidth={2} />
+                )}
+                {draftPoints && (
+                  <polygon points={toSvgPoints(draftPoints)} fill="rgba(34, 211, 238, 0.1)" stroke="rgb(103, 232, 249)" strokeWidth={2} strokeDasharray="6 4" />
+                )}
+              </svg>
+            );
+          })()}
+        </div>
       </div>
 
-      {(isLoading || isGenerating) && (
+      {swipeX !== null && (
+        <div
+          className="absolute top-0 bottom-0 z-10 w-6 -ml-3 flex justify-center cursor-ew-resize focus:outline-none group"
+          style={{ left: `${swipeX}px` }}
+          onPointerDown={handleDividerPointerDown}
+          onPointerMove={handleDividerPointerMove}
+          onKeyDown={handleDividerKeyDown}
+          tabIndex={0}
+          role="slider"
+          aria-label="Comparison divider. Original map on the left, styled map on the right."
+          aria-orientation="horizontal"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round((comparison.swipePosition ?? 0) * 100)}
+        >
+          <div className="w-0.5 h-full bg-white shadow-[0_0_4px_rgba(0,0,0,0.8)]"></div>
+          <div className="absolute top-1/2 -translate-y-1/2 w-6 h-10 rounded-md bg-white text-gray-800 text-xs font-bold flex items-center justify-center shadow-lg group-focus-visible:ring-2 group-focus-visible:ring-cyan-500" aria-hidden="true">
+            ‹›
+          </div>
+          <span className="absolute top-3 right-full mr-2 px-2 py-0.5 rounded bg-black/70 text-xs text-gray-200 whitespace-nowrap" aria-hidden="true">Original</span>
+          <span className="absolute top-3 left-full ml-2 px-2 py-0.5 rounded bg-black/70 text-xs text-gray-200 whitespace-nowrap" aria-hidden="true">Styled</span>
+        </div>
+      )}
+      {regionDrawMode && (
+        <div className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10 bg-black/75 px-3 py-1 rounded-full text-xs text-gray-200 pointer-events-none">
+          {regionDrawMode === 'rectangle'
+            ? 'Drag to draw the region. Esc cancels.'
+            : 'Click to add corners; double-click, press Enter or click the first corner to finish. Esc cancels.'}
+        </div>
+      )}
+      {isPeeking && (
+        <div className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10 bg-black/75 px-3 py-1 rounded-full text-xs text-gray-200 pointer-events-none">
+          Showing the original map
+        </div>
+      )}
+      {isLoading && (
          <div role="status" className="absolute inset-0 bg-black/60 z-10 flex flex-col items-center justify-center">
             <Spinner />
-            <p className="mt-4 font-medium text-gray-200">
-              {isGenerating ? 'Applying new style...' : 'Loading new map area...'}
+            <p className="mt-4 font-medium text-gray-200">Loading new map area...</p>
+         </div>
+      )}
+      {isGenerating && !isLoading && (
+         // Kept as a banner rather than a full overlay so styled tiles stay visible as they arrive.
+         <div role="status" className="absolute top-3 left-1/2 -translate-x-1/2 z-10 flex items-center gap-3 bg-black/75 px-4 py-2 rounded-full shadow-lg">
+            <div className="border-2 border-gray-500 border-t-cyan-400 rounded-full w-5 h-5 animate-spin" aria-hidden="true"></div>
+            <p className="text-sm font-medium text-gray-200">
+              Applying new style...
+              {generationProgress && ` ${generationProgress.completed} / ${generationProgress.total}`}
             </p>
          </div>
       )}
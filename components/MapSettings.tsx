@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import type { MapSessionOptions, MapType, MapLayerType, MapScale } from '../types';
+
+interface MapSettingsProps {
+  options: MapSessionOptions;
+  onChange: (options: MapSessionOptions) => void;
+  disabled: boolean;
+}
+
+const LAYER_LABELS: Record<MapLayerType, string> = {
+  layerRoadmap: 'Roads and labels',
+  layerStreetview: 'Street View coverage',
+  layerTraffic: 'Traffic',
+};
+
+const MapSettings: React.FC<MapSettingsProps> = ({ options, onChange, disabled }) => {
+  // Edits are collected in a draft and applied together, since every change starts a new map session.
+  const [draft, setDraft] = useState<MapSessionOptions>(options);
+
+  useEffect(() => {
+    setDraft(options);
+  }, [options]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(options);
+
+  const toggleLayer = (layer: MapLayerType) => {
+    setDraft(prev => ({
+      ...prev,
+      layerTypes: prev.layerTypes.includes(layer) ? prev.layerTypes.filter(l => l !== layer) : [...prev.layerTypes, layer],
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange({ ...draft, language: draft.language.trim(), region: draft.region.trim().toUpperCase() });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <h2 className="text-xl font-semibold text-cyan-400">Map Settings</h2>
+      <div>
+        <label htmlFor="mapType" className="block text-sm font-medium text-gray-300">Map Type</label>
+        <select
+          id="mapType"
+          value={draft.mapType}
+          onChange={(e) => setDraft(prev => ({ ...prev, mapType: e.target.value as MapType }))}
+          className="mt-1 block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-cyan-500 focus:border-cyan-500"
+          disabled={disabled}
+        >
+          <option value="roadmap">Roadmap</option>
+          <option value="satellite">Satellite</option>
+          <option value="terrain">Terrain</option>
+        </select>
+      </div>
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-300">Layers</legend>
+        <div className="mt-1 space-y-1">
+          {(Object.keys(LAYER_LABELS) as MapLayerType[]).map(layer => (
+            <label key={layer} className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={draft.layerTypes.includes(layer) || (layer === 'layerRoadmap' && draft.mapType === 'terrain')}
+                onChange={() => toggleLayer(layer)}
+                className="accent-cyan-500"
+                // Terrain tiles always include the roadmap layer.
+                disabled={disabled || (layer === 'layerRoadmap' && draft.mapType === 'terrain')}
+              />
+              {LAYER_LABELS[layer]}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="mapLanguage" className="block text-sm font-medium text-gray-300">Language</label>
+          <input
+            type="text"
+            id="mapLanguage"
+            value={draft.language}
+            onChange={(e) => setDraft(prev => ({ ...prev, language: e.target.value }))}
+            placeholder="en-US"
+            className="mt-1 block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-cyan-500 focus:border-cyan-500"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label htmlFor="mapRegion" className="block text-sm font-medium text-gray-300">Region</label>
+          <input
+            type="text"
+            id="mapRegion"
+            value={draft.region}
+            onChange={(e) => setDraft(prev => ({ ...prev, region: e.target.value }))}
+            placeholder="US"
+            maxLength={2}
+            className="mt-1 block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-cyan-500 focus:border-cyan-500"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <div>
+        <label htmlFor="mapScale" className="block text-sm font-medium text-gray-300">Label Scale</label>
+        <select
+          id="mapScale"
+          value={draft.scale}
+          onChange={(e) => setDraft(prev => ({ ...prev, scale: e.target.value as MapScale }))}
+          className="mt-1 block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-cyan-500 focus:border-cyan-500"
+          disabled={disabled}
+        >
+          <option value="scaleFactor1x">1x</option>
+          <option value="scaleFactor2x">2x</option>
+          <option value="scaleFactor4x">4x</option>
+        </select>
+      </div>
+      <button
+        type="submit"
+        disabled={disabled || !isDirty || !draft.language.trim() || !draft.region.trim()}
+        className="w-full flex justify-center py-2 px-4 border border-gray-600 rounded-md text-sm font-medium text-gray-300 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        Apply Map Settings
+      </button>
+    </form>
+  );
+};
+
+export default MapSettings;
@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import type { Geocoder, GeocodeResult } from '../services/geocoders';
+import { GEOCODER_DEBOUNCE_MS } from '../constants';
+
+interface PlaceSearchProps {
+  geocoder: Geocoder;
+  onSelect: (result: GeocodeResult) => void;
+  disabled: boolean;
+}
+
+const PlaceSearch: React.FC<PlaceSearchProps> = ({ geocoder, onSelect, disabled }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<GeocodeResult[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setSearchError(null);
+      setIsSearching(false);
+      return;
+    }
+
+    // Aborting the previous request keeps a slow, stale response from replacing newer suggestions.
+    const controller = new AbortController();
+    setIsSearching(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const found = await geocoder.search(trimmed, controller.signal);
+        setResults(found);
+        setActiveIndex(found.length > 0 ? 0 : -1);
+        setSearchError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Place search failed:', err);
+        setResults([]);
+        setSearchError(err instanceof Error ? err.message : 'Place search failed.');
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, GEOCODER_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query, geocoder]);
+
+  const selectResult = (result: GeocodeResult) => {
+    setQuery(result.name);
+    setIsOpen(false);
+    onSelect(result);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(prev => Math.min(prev + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(prev => Math.max(prev - 1, 0));
+        break;
+      case 'Enter':
+        // The search box sits inside the location form; Enter picks a suggestion instead of submitting it.
+        e.preventDefault();
+        if (isOpen && results[activeIndex]) selectResult(results[activeIndex]);
+        break;
+      case 'Escape':
+        setIsOpen(false);
+        break;
+    }
+  };
+
+  const showSuggestions = isOpen && query.trim() !== '' && (results.length > 0 || !isSearching);
+
+  return (
+    <div className="relative">
+      <label htmlFor="placeSearch" className="block text-sm font-medium text-gray-300">Search Places</label>
+      <input
+        type="text"
+        id="placeSearch"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="e.g., Kyoto Station"
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={showSuggestions}
+        aria-controls="placeSearchResults"
+        aria-autocomplete="list"
+        aria-activedescendant={showSuggestions && activeIndex >= 0 ? `placeSearchResult-${activeIndex}` : undefined}
+        className="mt-1 block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-cyan-500 focus:border-cyan-500"
+        disabled={disabled}
+      />
+      {showSuggestions && (
+        <ul
+          id="placeSearchResults"
+          role="listbox"
+          className="absolute z-20 mt-1 w-full bg-gray-800 border border-gray-600 rounded-md shadow-lg max-h-64 overflow-y-auto"
+        >
+          {searchError && <li className="px-3 py-2 text-sm text-red-400">{searchError}</li>}
+          {!searchError && results.length === 0 && <li className="px-3 py-2 text-sm text-gray-400">No places found.</li>}
+          {results.map((result, index) => (
+            <li
+              key={result.id}
+              id={`placeSearchResult-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Selecting on mouse down runs before the input's blur closes the list.
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectResult(result);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`px-3 py-2 cursor-pointer ${index === activeIndex ? 'bg-cyan-700/50' : ''}`}
+            >
+              <p className="text-sm text-white">{result.name}</p>
+              {result.description && <p className="text-xs text-gray-400">{result.description}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="mt-1 text-xs text-gray-500">Results from {geocoder.name}.</p>
+    </div>
+  );
+};
+
+export default PlaceSearch;
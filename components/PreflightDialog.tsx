@@ -0,0 +1,101 @@
+import React, { useEffect } from 'react';
+import type { GenerationEstimate } from '../types';
+import { MAX_REGION_TILES } from '../constants';
+
+interface PreflightDialogProps {
+  estimate: GenerationEstimate;
+  stylePrompt: string;
+  // The style engine's name, for when it has no pricing.
+  engineName: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const formatNumber = (value: number) => value.toLocaleString('en-US');
+
+/**
+ * Shows what restyling a region will take, and only starts it once confirmed.
+ */
+const PreflightDialog: React.FC<PreflightDialogProps> = ({ estimate, stylePrompt, engineName, onConfirm, onCancel }) => {
+  const isTooLarge = estimate.tileCount > MAX_REGION_TILES;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="preflight-title"
+        className="w-full max-w-md bg-gray-800 border border-gray-700 rounded-xl shadow-2xl p-6 space-y-4"
+      >
+        <h2 id="preflight-title" className="text-xl font-semibold text-teal-400">Restyle Region?</h2>
+        <p className="text-sm text-gray-300">
+          Style: <span className="text-white">{stylePrompt}</span>
+        </p>
+        <table className="w-full text-sm">
+          <tbody className="divide-y divide-gray-700">
+            {Object.keys(estimate.tileCountsByZoom).map(Number).map(zoom => (
+              <tr key={zoom}>
+                <td className="py-1 text-gray-400">Tiles at zoom {zoom}</td>
+                <td className="py-1 text-right tabular-nums">{formatNumber(estimate.tileCountsByZoom[zoom])}</td>
+              </tr>
+            ))}
+            <tr>
+              <td className="py-1 text-gray-400">Total tiles</td>
+              <td className="py-1 text-right tabular-nums font-medium">{formatNumber(estimate.tileCount)}</td>
+            </tr>
+            <tr>
+              <td className="py-1 text-gray-400">Requests</td>
+              <td className="py-1 text-right tabular-nums">{formatNumber(estimate.requestCount)}</td>
+            </tr>
+            <tr>
+              <td className="py-1 text-gray-400">Tokens (input / output)</td>
+              <td className="py-1 text-right tabular-nums">~{formatNumber(estimate.inputTokens)} / ~{formatNumber(estimate.outputTokens)}</td>
+            </tr>
+            <tr>
+              <td className="py-1 text-gray-400">Estimated cost</td>
+              <td className="py-1 text-right tabular-nums font-medium">
+                {estimate.cost === null ? `Not known for ${engineName}` : `~$${estimate.cost.toFixed(2)}`}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500">
+          Estimates assume every tile is generated. Pinned tiles, and tiles built from the zoom level below, cost less.
+        </p>
+        {isTooLarge && (
+          <p className="text-sm text-red-400">
+            This is more than the limit of {MAX_REGION_TILES} tiles per region. Draw a smaller region or use fewer zoom levels.
+          </p>
+        )}
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 py-2 px-3 border border-gray-600 rounded-md text-sm font-medium text-gray-300 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-teal-500 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            disabled={isTooLarge}
+            autoFocus
+            className="flex-1 py-2 px-3 rounded-md text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Restyle {formatNumber(estimate.tileCount)} Tile{estimate.tileCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreflightDialog;
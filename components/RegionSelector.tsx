@@ -0,0 +1,104 @@
+import React from 'react';
+import type { SelectionRegion, RegionShape } from '../types';
+import { MAX_REGION_TILES, MAX_REGION_ZOOM_LEVELS } from '../constants';
+
+interface RegionSelectorProps {
+  region: SelectionRegion | null;
+  drawMode: RegionShape | null;
+  onDrawModeChange: (mode: RegionShape | null) => void;
+  onZoomRangeChange: (minZoom: number, maxZoom: number) => void;
+  onClear: () => void;
+  // The region's tile count across its zoom levels, or null if it is too large to count.
+  tileCount: number | null;
+  minZoomLimit: number;
+  maxZoomLimit: number;
+  disabled: boolean;
+}
+
+const selectClassName = "mt-1 block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-teal-500 focus:border-teal-500 disabled:opacity-50";
+
+const RegionSelector: React.FC<RegionSelectorProps> = ({
+  region,
+  drawMode,
+  onDrawModeChange,
+  onZoomRangeChange,
+  onClear,
+  tileCount,
+  minZoomLimit,
+  maxZoomLimit,
+  disabled,
+}) => {
+  const drawButton = (mode: RegionShape, label: string) => (
+    <button
+      type="button"
+      onClick={() => onDrawModeChange(drawMode === mode ? null : mode)}
+      aria-pressed={drawMode === mode}
+      disabled={disabled}
+      className={`flex-1 py-2 px-3 rounded-md border text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50 disabled:cursor-not-allowed ${drawMode === mode ? 'bg-teal-700 border-teal-600 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+    >
+      {label}
+    </button>
+  );
+
+  const zoomOptions = (from: number, to: number) =>
+    Array.from({ length: to - from + 1 }, (_, i) => from + i).map(zoom => <option key={zoom} value={zoom}>{zoom}</option>);
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold text-teal-400">Region</h2>
+      <p className="text-sm text-gray-400">Draw an area on the map, then pick <em>Drawn region</em> under Apply To.</p>
+      <div className="flex gap-2">
+        {drawButton('rectangle', 'Rectangle')}
+        {drawButton('polygon', 'Polygon')}
+      </div>
+      {region && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="regionMinZoom" className="block text-sm font-medium text-gray-300">From Zoom</label>
+              <select
+                id="regionMinZoom"
+                value={region.minZoom}
+                onChange={(e) => {
+                  const minZoom = Number(e.target.value);
+                  onZoomRangeChange(minZoom, Math.min(Math.max(region.maxZoom, minZoom), minZoom + MAX_REGION_ZOOM_LEVELS - 1));
+                }}
+                className={selectClassName}
+                disabled={disabled}
+              >
+                {zoomOptions(minZoomLimit, maxZoomLimit)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="regionMaxZoom" className="block text-sm font-medium text-gray-300">To Zoom</label>
+              <select
+                id="regionMaxZoom"
+                value={region.maxZoom}
+                onChange={(e) => onZoomRangeChange(region.minZoom, Number(e.target.value))}
+                className={selectClassName}
+                disabled={disabled}
+              >
+                {zoomOptions(region.minZoom, Math.min(maxZoomLimit, region.minZoom + MAX_REGION_ZOOM_LEVELS - 1))}
+              </select>
+            </div>
+          </div>
+          <p className={`text-sm ${tileCount === null || tileCount > MAX_REGION_TILES ? 'text-red-400' : 'text-gray-300'}`}>
+            {tileCount === null
+              ? 'Too many tiles to count. Draw a smaller region or lower the zoom levels.'
+              : `${tileCount} tile${tileCount === 1 ? '' : 's'}${tileCount > MAX_REGION_TILES ? `, more than the limit of ${MAX_REGION_TILES}` : ''}`}
+          </p>
+          <button
+            type="button"
+            onClick={onClear}
+            disabled={disabled}
+            className="w-full py-2 px-3 border border-gray-600 rounded-md text-sm font-medium text-gray-300 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Clear Region
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RegionSelector;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import type { StyleLayer } from '../types';
+
+interface StyleLayerSwitcherProps {
+  layers: StyleLayer[];
+  activeLayerId: string;
+  onSelect: (id: string) => void;
+  // Called with the new layer's name, which is also its starting prompt.
+  onAdd: (name: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const StyleLayerSwitcher: React.FC<StyleLayerSwitcherProps> = ({ layers, activeLayerId, onSelect, onAdd, onRemove }) => {
+  const [newLayerName, setNewLayerName] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newLayerName.trim();
+    if (!name) return;
+    onAdd(name);
+    setNewLayerName('');
+  };
+
+  return (
+    <div className="absolute top-4 left-4 z-10 w-56 flex flex-col gap-2 bg-gray-800/90 border border-gray-700 rounded-md p-3 text-sm text-gray-300 shadow-lg">
+      <h2 className="text-xs font-semibold uppercase tracking-wide text-gray-400">Style Layers</h2>
+      <ul className="flex flex-col gap-1 max-h-48 overflow-y-auto" role="radiogroup" aria-label="Style layers">
+        {layers.map(layer => {
+          const isActive = layer.id === activeLayerId;
+          return (
+            <li key={layer.id} className="flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => onSelect(layer.id)}
+                role="radio"
+                aria-checked={isActive}
+                className={`flex-1 min-w-0 text-left py-1 px-2 rounded-md border transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 ${isActive ? 'bg-cyan-700 border-cyan-600 text-white' : 'bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600'}`}
+                title={layer.prompt}
+              >
+                <span className="block truncate font-medium">{layer.name}</span>
+                {layer.prompt !== layer.name && <span className="block truncate text-xs opacity-75">{layer.prompt}</span>}
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(layer.id)}
+                disabled={layers.length <= 1}
+                className="shrink-0 w-6 h-6 rounded-md text-gray-400 hover:text-white hover:bg-gray-600 disabled:opacity-30 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                aria-label={`Remove layer ${layer.name}`}
+                title="Remove layer. Its styled tiles stay cached."
+              >
+                ×
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <form onSubmit={handleAdd} className="flex gap-1">
+        <input
+          type="text"
+          value={newLayerName}
+          onChange={(e) => setNewLayerName(e.target.value)}
+          placeholder="New layer, e.g. watercolor"
+          className="flex-1 min-w-0 bg-gray-700 border-gray-600 rounded-md py-1 px-2 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          aria-label="New layer name"
+        />
+        <button
+          type="submit"
+          disabled={!newLayerName.trim()}
+          className="shrink-0 py-1 px-2 rounded-md bg-cyan-600 text-white font-medium hover:bg-cyan-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-cyan-500"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default StyleLayerSwitcher;
@@ -0,0 +1,46 @@
+import React from 'react';
+
+interface TileToolbarProps {
+  // The 1-based number of the version shown, out of `versionCount`.
+  version: number;
+  versionCount: number;
+  isPinned: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onTogglePin: () => void;
+}
+
+const buttonClassName = "px-2 py-1 rounded text-xs font-medium text-gray-200 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+/**
+ * Version history and pinning controls for the selected styled tile.
+ */
+const TileToolbar: React.FC<TileToolbarProps> = ({ version, versionCount, isPinned, onUndo, onRedo, onTogglePin }) => (
+  <div
+    className="flex items-center gap-1 bg-gray-900/90 border border-gray-700 rounded-md p-1 shadow-lg"
+    // The toolbar sits on the map; keep its clicks from panning or changing the selection.
+    onPointerDown={(e) => e.stopPropagation()}
+    onClick={(e) => e.stopPropagation()}
+    role="toolbar"
+    aria-label="Styled tile versions"
+  >
+    <button type="button" onClick={onUndo} disabled={isPinned || version <= 1} className={buttonClassName} title="Undo (Ctrl+Z)">
+      Undo
+    </button>
+    <span className="px-1 text-xs text-gray-400 tabular-nums">{version}/{versionCount}</span>
+    <button type="button" onClick={onRedo} disabled={isPinned || version >= versionCount} className={buttonClassName} title="Redo (Ctrl+Shift+Z)">
+      Redo
+    </button>
+    <button
+      type="button"
+      onClick={onTogglePin}
+      aria-pressed={isPinned}
+      className={`${buttonClassName} ${isPinned ? 'bg-amber-600 text-white hover:bg-amber-700' : ''}`}
+      title={isPinned ? 'Unpin this version' : 'Pin this version so restyling the area keeps it'}
+    >
+      {isPinned ? 'Pinned' : 'Pin'}
+    </button>
+  </div>
+);
+
+export default TileToolbar;
@@ -0,0 +1,93 @@
+import React from 'react';
+import type { UsageBudgets, UsageCounters, UsageSnapshot } from '../types';
+
+interface UsagePanelProps {
+  usage: UsageSnapshot;
+  onBudgetsChange: (budgets: UsageBudgets) => void;
+  // Null while every budget has room left.
+  budgetError: string | null;
+  // Whether queued jobs were cancelled when a budget was used up.
+  hasCancelledJobs: boolean;
+}
+
+const COUNTER_ROWS: { key: keyof UsageCounters; label: string }[] = [
+  { key: 'requests', label: 'Requests' },
+  { key: 'failures', label: 'Failures' },
+  { key: 'inputTokens', label: 'Input tokens' },
+  { key: 'outputTokens', label: 'Output tokens' },
+  { key: 'tileFetches', label: 'Map tiles' },
+];
+
+const BUDGET_FIELDS: { key: keyof UsageBudgets; label: string }[] = [
+  { key: 'sessionRequests', label: 'Requests per session' },
+  { key: 'dailyRequests', label: 'Requests per day' },
+  { key: 'sessionTokens', label: 'Tokens per session' },
+  { key: 'dailyTokens', label: 'Tokens per day' },
+];
+
+const inputClassName = "mt-1 block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm py-1 px-2 text-sm text-white focus:outline-none focus:ring-amber-500 focus:border-amber-500";
+
+const formatCount = (count: number) => count.toLocaleString('en-US');
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ usage, onBudgetsChange, budgetError, hasCancelledJobs }) => {
+  const updateBudget = (key: keyof UsageBudgets, value: string) => {
+    const limit = value === '' ? null : Math.max(0, Math.floor(Number(value)));
+    if (limit !== null && !Number.isFinite(limit)) return;
+    onBudgetsChange({ ...usage.budgets, [key]: limit });
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold text-amber-400">Usage</h2>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-400">
+            <th className="text-left font-medium py-1"></th>
+            <th className="text-right font-medium py-1">Session</th>
+            <th className="text-right font-medium py-1">Today</th>
+            <th className="text-right font-medium py-1">All time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {COUNTER_ROWS.map(({ key, label }) => (
+            <tr key={key} className="border-t border-gray-700">
+              <td className="py-1 text-gray-300">{label}</td>
+              <td className="py-1 text-right text-white tabular-nums">{formatCount(usage.session[key])}</td>
+              <td className="py-1 text-right text-white tabular-nums">{formatCount(usage.today[key])}</td>
+              <td className="py-1 text-right text-gray-400 tabular-nums">{formatCount(usage.total[key])}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <details className="rounded-md border border-gray-700 px-3 py-2">
+        <summary className="cursor-pointer text-sm font-medium text-gray-300">Budgets</summary>
+        <div className="mt-3 grid grid-cols-2 gap-3">
+          {BUDGET_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <label htmlFor={`budget-${key}`} className="block text-xs font-medium text-gray-300">{label}</label>
+              <input
+                type="number"
+                id={`budget-${key}`}
+                min={0}
+                step={1}
+                value={usage.budgets[key] ?? ''}
+                onChange={(e) => updateBudget(key, e.target.value)}
+                placeholder="No limit"
+                className={inputClassName}
+              />
+            </div>
+          ))}
+        </div>
+        <p className="mt-2 text-xs text-gray-500">Generation stops once a budget is used up. Days start at local midnight.</p>
+      </details>
+      {budgetError && (
+        <p className="text-sm text-red-400" role="alert">
+          {budgetError}
+          {hasCancelledJobs && ' The jobs still queued were cancelled; retry them from the Generation Queue afterwards.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
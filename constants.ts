@@ -1,18 +1,114 @@
 
-import type { LocationState } from './types';
+import type { LocationState, ViewportSize, MapSessionOptions, StyleComparison, GenerationSettings, StylePricing, UsageBudgets } from './types';
 
 export const TILE_SIZE = 256; // Standard size for Google Map tiles in pixels
 
-// The number of tiles visible in the viewport's grid (e.g., 3x3).
-export const VISIBLE_GRID_DIMENSION = 3;
+// The viewport size used until the map's container has been measured (a 3x3 tile window).
+export const DEFAULT_VIEWPORT_SIZE: ViewportSize = { width: 768, height: 768 };
 
-// The number of tiles to fetch, creating a buffer for panning (e.g., 5x5).
-// This should be an odd number and larger than VISIBLE_GRID_DIMENSION.
-export const FETCH_GRID_DIMENSION = 5;
+// The buffer of off-screen tiles fetched around the viewport for panning, as a fraction of the number of
+// visible tiles across. A 3x3 viewport gets one extra tile on each side; larger viewports get more.
+export const TILE_BUFFER_RATIO = 0.25;
+
+// How many tiles the view may move away from the tile layer's origin before it is re-anchored.
+// Keeps CSS pixel offsets small after long pans without remounting tiles on every pan.
+export const MAX_TILE_ORIGIN_DRIFT = 64;
+
+// How many zoom levels up to look for a styled tile to crop and upscale when a tile has not been styled itself.
+export const MAX_OVERZOOM_LEVELS = 3;
 
 // With a positioning factor of 1, tiles are laid out edge-to-edge to create a seamless map.
 export const POSITIONING_FACTOR = 1;
 
+export const DEFAULT_MAP_SESSION_OPTIONS: MapSessionOptions = {
+  mapType: 'roadmap',
+  layerTypes: [],
+  language: 'en-US',
+  region: 'US',
+  scale: 'scaleFactor1x',
+};
+
+// Map sessions are renewed this long before they expire, so tiles never load with a stale token.
+export const SESSION_REFRESH_MARGIN_MS = 60 * 60 * 1000;
+// After a tile fails to load the session is renewed in case it expired, but at most this often.
+export const SESSION_RECOVERY_INTERVAL_MS = 60 * 1000;
+
+// Styled tiles start fully opaque, with no swipe divider.
+export const DEFAULT_STYLE_COMPARISON: StyleComparison = { swipePosition: null, styledOpacity: 1, showUnblended: false };
+// Where the swipe divider appears when it is turned on, as a fraction of the map width.
+export const DEFAULT_SWIPE_POSITION = 0.5;
+
+// The maximum number of generation jobs sent to the style model at the same time.
+export const GENERATION_CONCURRENCY = 3;
+// The default rate limit for style requests, in requests started per minute. `GENERATION_RATE_LIMIT` overrides it.
+export const GENERATION_REQUESTS_PER_MINUTE = 30;
+// Rate-limited and failed-on-the-server jobs are retried with exponential backoff, up to this many attempts in total.
+export const GENERATION_MAX_ATTEMPTS = 4;
+export const GENERATION_RETRY_BASE_DELAY_MS = 2000;
+export const GENERATION_RETRY_MAX_DELAY_MS = 60 * 1000;
+// Generation is unlimited until the user sets budgets in the usage panel.
+export const DEFAULT_USAGE_BUDGETS: UsageBudgets = { sessionRequests: null, dailyRequests: null, sessionTokens: null, dailyTokens: null };
+
+// The image model used to restyle tiles. Part of the styled tile cache key.
+export const STYLE_MODEL = 'gemini-2.5-flash-image-preview';
+// Gemini image models offered in the advanced generation settings.
+export const GEMINI_IMAGE_MODELS = ['gemini-2.5-flash-image-preview', 'gemini-2.5-flash-image'];
+
+// The instruction sent with each tile. {style}, {lat}, {lng} and {zoom} are filled in per tile (or mosaic).
+export const DEFAULT_PROMPT_TEMPLATE = 'Restyle this map image in the style of {style}. Preserve the geographic features like roads and buildings. The resulting image must be seamless with no borders, vignette, or frame.';
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+  negativePrompt: '',
+  model: '',
+  temperature: null,
+  seed: null,
+  variations: 1,
+};
+// The most candidates that can be generated per tile to pick from.
+export const MAX_VARIATIONS = 4;
+// How many styled versions of a tile are kept for undo and redo.
+export const MAX_TILE_HISTORY = 10;
+// The style prompt of the first layer, before the user has written one.
+export const DEFAULT_STYLE_PROMPT = 'cyberpunk';
+
+// Rough token counts for estimating a generation before it runs. Gemini counts an image of up to 768x768 pixels
+// as 258 input tokens and bills every generated image as 1290 output tokens.
+export const ESTIMATED_IMAGE_INPUT_TOKENS = 258;
+export const ESTIMATED_IMAGE_OUTPUT_TOKENS = 1290;
+export const ESTIMATED_PROMPT_TOKENS = 250;
+// List prices of the Gemini image models, for cost estimates.
+export const GEMINI_IMAGE_PRICING: StylePricing = { inputPerMillionTokens: 0.3, outputPerMillionTokens: 30 };
+// The most tiles a drawn region may cover across its zoom levels, so a slip can't restyle a whole city.
+export const MAX_REGION_TILES = 500;
+// The most zoom levels a region can be restyled at in one go.
+export const MAX_REGION_ZOOM_LEVELS = 4;
+// Regions whose bounding box holds more tiles than this at a zoom level aren't listed tile by tile.
+export const REGION_SCAN_LIMIT = 250_000;
+
+// The width, in pixels, of the band along a tile's edge that seam blending fades into the styled neighbour.
+export const SEAM_BLEND_WIDTH = 16;
+// How far seam blending moves a tile's colours towards its neighbours', from 0 (not at all) to 1 (an exact
+// histogram match). A full match would flatten genuinely different areas, such as water next to land.
+export const HISTOGRAM_MATCH_STRENGTH = 0.6;
+
+// Limits for the persistent styled tile cache; least recently used tiles are evicted beyond these.
+export const STYLED_TILE_CACHE_MAX_ENTRIES = 2000;
+export const STYLED_TILE_CACHE_MAX_BYTES = 200 * 1024 * 1024;
+
+// Style reference images are downscaled to this size (longest side, in pixels) before being saved and sent.
+export const REFERENCE_IMAGE_MAX_DIMENSION = 1024;
+export const MAX_REFERENCE_IMAGES = 4;
+
+// How long the view must stay put before it becomes a browser history entry, so a drag makes one entry, not hundreds.
+export const PERMALINK_HISTORY_DELAY_MS = 600;
+
+// Place search waits for a pause in typing before querying, and shows at most this many suggestions.
+export const GEOCODER_DEBOUNCE_MS = 250;
+export const GEOCODER_MAX_RESULTS = 5;
+
+// The zoom used for search results that don't come with a bounding box.
+export const DEFAULT_PLACE_ZOOM = 16;
+
 export const MIN_ZOOM = 1;
 export const MAX_ZOOM = 22;
 
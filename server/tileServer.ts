@@ -0,0 +1,171 @@
+/**
+ * An XYZ tile server that restyles map tiles on demand, for use as a basemap in Leaflet, MapLibre and friends.
+ *
+ *   GET /styles/{styleId}/{z}/{x}/{y}.png
+ *
+ * Base tiles come from the configured tile source and are restyled with the configured style engine (see the
+ * README). Styled tiles are cached on disk, so each one is only generated once per style prompt and model.
+ * Tiles are served in the format the engine returned; a request with another extension (.png, .jpg, .jpeg or
+ * .webp) is redirected to the tile's own, so a tile's URL always matches its content type.
+ */
+import http from 'node:http';
+import path from 'node:path';
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { createTileSourceFromConfig } from '../services/tileSources';
+import { createStyleEngineFromConfig } from '../services/styleEngines';
+import { stylizeTileImage } from '../services/styleGeneration';
+import { hashStyle } from '../services/styledTileCache';
+import { createSessionManager } from '../services/sessionManager';
+import { describeSessionOptions } from '../services/googleMaps';
+import { DEFAULT_MAP_SESSION_OPTIONS } from '../constants';
+import type { Base64Image } from '../services/imageUtils';
+
+interface StyleConfig {
+  prompt: string;
+}
+
+const PORT = Number(process.env.TILE_SERVER_PORT || 8787);
+const STYLES_PATH = path.resolve(process.env.TILE_SERVER_STYLES || 'styles.json');
+const CACHE_DIR = path.resolve(process.env.TILE_SERVER_CACHE_DIR || '.tile-cache');
+
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+const MIME_TYPES: Record<string, string> = Object.fromEntries(Object.entries(EXTENSIONS).map(([mime, ext]) => [ext, mime]));
+
+const TILE_PATH = /^\/styles\/([A-Za-z0-9_-]+)\/(\d+)\/(\d+)\/(\d+)\.(png|jpe?g|webp)$/;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const tileSource = createTileSourceFromConfig();
+const styleEngine = createStyleEngineFromConfig();
+if (styleEngine.id === 'local') {
+  // The local engine draws with a browser canvas, which Node doesn't have.
+  throw new Error('The tile server needs a network style engine; STYLE_ENGINE=local only works in the browser.');
+}
+
+const createSession = tileSource.createSession;
+const sessionManager = createSession ? createSessionManager(() => createSession(DEFAULT_MAP_SESSION_OPTIONS)) : null;
+// Tiles are cached per base map, the same way the app caches them.
+const baseLayer = createSession ? describeSessionOptions(DEFAULT_MAP_SESSION_OPTIONS) : '';
+
+const getSessionToken = async (): Promise<string | null> => (sessionManager ? (await sessionManager.getSession()).token : null);
+
+const loadStyles = async (): Promise<Record<string, StyleConfig>> => {
+  try {
+    return JSON.parse(await readFile(STYLES_PATH, 'utf8'));
+  } catch (err) {
+    throw new Error(`Could not read styles from ${STYLES_PATH}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+};
+
+const fetchBaseTile = async (zoom: number, x: number, y: number): Promise<Base64Image> => {
+  let response = await fetch(tileSource.getTileUrl(zoom, x, y, await getSessionToken()));
+  // The session may have expired early; renew it and try once more.
+  const recovery = !response.ok ? sessionManager?.recover() : null;
+  if (recovery) {
+    response = await fetch(tileSource.getTileUrl(zoom, x, y, (await recovery).token));
+  }
+  if (!response.ok) {
+    throw new HttpError(502, `Base tile ${zoom}/${x}/${y} failed to load: ${response.status} ${response.statusText}`);
+  }
+  const mimeType = response.headers.get('content-type')?.split(';')[0] || 'image/png';
+  const data = Buffer.from(await response.arrayBuffer()).toString('base64');
+  return { data, mimeType };
+};
+
+const readCachedTile = async (basePath: string): Promise<Base64Image | null> => {
+  for (const [extension, mimeType] of Object.entries(MIME_TYPES)) {
+    try {
+      const data = await readFile(`${basePath}.${extension}`);
+      return { data: data.toString('base64'), mimeType };
+    } catch {
+      // Not cached in this format.
+    }
+  }
+  return null;
+};
+
+// Tiles currently being generated, so concurrent requests for the same tile share one generation.
+const inFlight = new Map<string, Promise<Base64Image>>();
+
+const getStyledTile = (styleId: string, style: StyleConfig, zoom: number, x: number, y: number): Promise<Base64Image> => {
+  const styleHash = hashStyle(style.prompt.trim(), styleEngine.model, [], baseLayer);
+  const basePath = path.join(CACHE_DIR, styleId, styleHash, String(zoom), String(x), String(y));
+
+  const existing = inFlight.get(basePath);
+  if (existing) return existing;
+
+  const generation = (async () => {
+    const cached = await readCachedTile(basePath);
+    if (cached) return cached;
+
+    console.log(`Generating ${styleId}/${zoom}/${x}/${y}...`);
+    const baseTile = await fetchBaseTile(zoom, x, y);
+    const styled = await stylizeTileImage(styleEngine, baseTile, { prompt: style.prompt, referenceImages: [] });
+
+    await mkdir(path.dirname(basePath), { recursive: true });
+    await writeFile(`${basePath}.${EXTENSIONS[styled.mimeType] ?? 'png'}`, Buffer.from(styled.data, 'base64'));
+    return styled;
+  })().finally(() => inFlight.delete(basePath));
+
+  inFlight.set(basePath, generation);
+  return generation;
+};
+
+const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  const match = req.method === 'GET' ? TILE_PATH.exec(new URL(req.url ?? '/', 'http://localhost').pathname) : null;
+  if (!match) {
+    throw new HttpError(404, 'Not found. Request tiles as /styles/{styleId}/{z}/{x}/{y}.png');
+  }
+
+  const [, styleId, z, x, y, requestedExtension] = match;
+  const zoom = Number(z);
+  const tileX = Number(x);
+  const tileY = Number(y);
+  const tilesPerSide = Math.pow(2, zoom);
+  if (zoom > tileSource.maxZoom || tileX >= tilesPerSide || tileY >= tilesPerSide) {
+    throw new HttpError(404, `Tile ${zoom}/${tileX}/${tileY} is out of range.`);
+  }
+
+  const styles = await loadStyles();
+  const style = styles[styleId];
+  if (!style?.prompt) {
+    throw new HttpError(404, `Unknown style "${styleId}". Add it to ${STYLES_PATH}.`);
+  }
+
+  const tile = await getStyledTile(styleId, style, zoom, tileX, tileY);
+  const extension = EXTENSIONS[tile.mimeType] ?? 'png';
+  if (extension !== requestedExtension.replace('jpeg', 'jpg')) {
+    res.writeHead(302, {
+      Location: `/styles/${styleId}/${zoom}/${tileX}/${tileY}.${extension}`,
+      'Cache-Control': 'public, max-age=86400',
+    });
+    res.end();
+    return;
+  }
+  res.writeHead(200, {
+    'Content-Type': tile.mimeType,
+    'Cache-Control': 'public, max-age=86400',
+  });
+  res.end(Buffer.from(tile.data, 'base64'));
+};
+
+const server = http.createServer((req, res) => {
+  handleRequest(req, res).catch(err => {
+    const status = err instanceof HttpError ? err.status : 500;
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    if (status >= 500) console.error(`${req.url}:`, err);
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(message);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Styled tile server listening on http://localhost:${PORT}/styles/{styleId}/{z}/{x}/{y}.png`);
+  console.log(`Tile source: ${tileSource.name}. Style engine: ${styleEngine.name}. Styles: ${STYLES_PATH}. Cache: ${CACHE_DIR}`);
+});
@@ -0,0 +1,69 @@
+const DB_NAME = 'map-style-transfer';
+const DB_VERSION = 2;
+
+export const STYLED_TILES_STORE = 'styledTiles';
+export const STYLES_STORE = 'styles';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use, creates or upgrades) the app's IndexedDB database.
+ * The connection is shared across callers.
+ * @returns A promise that resolves to the open database.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      return reject(new Error('IndexedDB is not available in this environment.'));
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STYLED_TILES_STORE)) {
+        const store = db.createObjectStore(STYLED_TILES_STORE, { keyPath: 'id' });
+        store.createIndex('styleHash', 'styleHash', { unique: false });
+        store.createIndex('lastAccessed', 'lastAccessed', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STYLES_STORE)) {
+        db.createObjectStore(STYLES_STORE, { keyPath: 'layerId' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(new Error(`Failed to open the local database: ${request.error?.message ?? 'unknown error'}`));
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Wraps an IDBRequest in a promise.
+ * @param request - The request to wait for.
+ * @returns A promise that resolves to the request's result.
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Waits for a transaction to commit.
+ * @param transaction - The transaction to wait for.
+ * @returns A promise that resolves once the transaction has completed.
+ */
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted.'));
+  });
+};
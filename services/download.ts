@@ -0,0 +1,16 @@
+/**
+ * Saves a blob to the user's downloads folder by clicking a temporary link.
+ * @param blob - The file contents.
+ * @param filename - The suggested file name.
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers, so give it a moment.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
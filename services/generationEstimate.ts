@@ -0,0 +1,42 @@
+import type { MapTile, GenerationEstimate, StylePricing } from '../types';
+import { partitionIntoBlocks } from './styleGeneration';
+import { ESTIMATED_IMAGE_INPUT_TOKENS, ESTIMATED_IMAGE_OUTPUT_TOKENS, ESTIMATED_PROMPT_TOKENS } from '../constants';
+
+interface EstimateOptions {
+  mosaicSize: number;
+  variations: number;
+  referenceImageCount: number;
+  matchZoomLevels: boolean;
+}
+
+/**
+ * Estimates the requests, tokens and cost of restyling some tiles. It assumes every tile is generated, so tiles
+ * that turn out to be pinned or that can be built from their children make the real numbers lower.
+ * @param tiles - The tiles to restyle.
+ * @param options - The generation options that change the number or size of requests.
+ * @param pricing - The style engine's prices, if known.
+ * @returns The estimate.
+ */
+export const estimateGeneration = (
+  tiles: MapTile[],
+  { mosaicSize, variations, referenceImageCount, matchZoomLevels }: EstimateOptions,
+  pricing: StylePricing | null,
+): GenerationEstimate => {
+  const tileCountsByZoom: Record<number, number> = {};
+  tiles.forEach(tile => {
+    tileCountsByZoom[tile.zoom] = (tileCountsByZoom[tile.zoom] ?? 0) + 1;
+  });
+
+  const isMosaic = mosaicSize > 1;
+  const blockCount = isMosaic ? partitionIntoBlocks(tiles, mosaicSize).length : tiles.length;
+  const requestCount = blockCount * Math.max(1, variations);
+  // The map image, the reference images, and at most one image each of styled surroundings and parent tiles.
+  const imagesPerRequest = 1 + referenceImageCount + (isMosaic ? 1 : 0) + (matchZoomLevels ? 1 : 0);
+  const inputTokens = requestCount * (ESTIMATED_PROMPT_TOKENS + imagesPerRequest * ESTIMATED_IMAGE_INPUT_TOKENS);
+  const outputTokens = requestCount * ESTIMATED_IMAGE_OUTPUT_TOKENS;
+  const cost = pricing
+    ? (inputTokens * pricing.inputPerMillionTokens + outputTokens * pricing.outputPerMillionTokens) / 1_000_000
+    : null;
+
+  return { tileCount: tiles.length, tileCountsByZoom, requestCount, inputTokens, outputTokens, cost };
+};
@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createGenerationQueue, getRetryDelay, isRetryableError } from './generationQueue';
+import type { GenerationJobSpec, GenerationQueueOptions } from './generationQueue';
+import type { GenerationJob } from '../types';
+
+const OPTIONS: GenerationQueueOptions = {
+  concurrency: 1,
+  // One start per millisecond, so the rate limit doesn't hold up the tests.
+  requestsPerMinute: 60_000,
+  maxAttempts: 3,
+  baseRetryDelayMs: 1000,
+  maxRetryDelayMs: 4000,
+};
+
+const serverError = () => Object.assign(new Error('The model is overloaded.'), { status: 503 });
+
+/**
+ * A job whose run waits until the test settles it, and rejects once it is aborted.
+ */
+const deferredJob = (label: string) => {
+  let resolve = () => {};
+  let signal: AbortSignal | null = null;
+  const spec: GenerationJobSpec = {
+    label,
+    tileKeys: [label],
+    run: (runSignal) => new Promise<void>((res, reject) => {
+      signal = runSignal;
+      resolve = res;
+      runSignal.addEventListener('abort', () => reject(new Error('Aborted.')));
+    }),
+  };
+  return { spec, resolve: () => resolve(), getSignal: () => signal };
+};
+
+const failingJob = (label: string, error: () => unknown): GenerationJobSpec => ({
+  label,
+  tileKeys: [label],
+  run: async () => {
+    throw error();
+  },
+});
+
+const watchJobs = (queue: ReturnType<typeof createGenerationQueue>) => {
+  let jobs: GenerationJob[] = [];
+  queue.subscribe(next => {
+    jobs = next;
+  });
+  return (label: string) => jobs.find(job => job.label === label);
+};
+
+describe('isRetryableError', () => {
+  it('retries rate limiting and server errors', () => {
+    expect(isRetryableError({ status: 429 })).toBe(true);
+    expect(isRetryableError({ status: 503 })).toBe(true);
+    expect(isRetryableError(new Error('got status 502 from upstream'))).toBe(true);
+    expect(isRetryableError(new Error('RESOURCE_EXHAUSTED: quota'))).toBe(true);
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+  });
+
+  it('does not retry errors that would fail the same way again', () => {
+    expect(isRetryableError({ status: 400 })).toBe(false);
+    expect(isRetryableError(new Error('The prompt was blocked.'))).toBe(false);
+    expect(isRetryableError('503')).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('doubles with every attempt up to the maximum, with up to half of it random', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect([1, 2, 3, 4].map(attempt => getRetryDelay(attempt, OPTIONS))).toEqual([500, 1000, 2000, 2000]);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(getRetryDelay(1, OPTIONS)).toBeCloseTo(1000, 2);
+    expect(getRetryDelay(10, OPTIONS)).toBeCloseTo(4000, 2);
+  });
+});
+
+describe('createGenerationQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries a retryable failure after its backoff', async () => {
+    const queue = createGenerationQueue(OPTIONS);
+    const getJob = watchJobs(queue);
+    let calls = 0;
+    queue.enqueue([{
+      label: 'tile',
+      tileKeys: ['tile'],
+      run: async () => {
+        calls++;
+        if (calls === 1) throw serverError();
+      },
+    }]);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(getJob('tile')).toMatchObject({ status: 'retrying', attempts: 1, error: 'The model is overloaded.' });
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(getJob('tile')?.status).toBe('retrying');
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(getJob('tile')).toMatchObject({ status: 'succeeded', attempts: 2, error: undefined });
+    expect(calls).toBe(2);
+    queue.dispose();
+  });
+
+  it('fails a job once it has used up its attempts', async () => {
+    const queue = createGenerationQueue(OPTIONS);
+    const getJob = watchJobs(queue);
+    queue.enqueue([failingJob('tile', serverError)]);
+
+    await vi.advanceTimersByTimeAsync(500 + 1000);
+    expect(getJob('tile')).toMatchObject({ status: 'failed', attempts: 3 });
+    queue.dispose();
+  });
+
+  it('fails a job straight away on an error that is not worth retrying', async () => {
+    const queue = createGenerationQueue(OPTIONS);
+    const getJob = watchJobs(queue);
+    queue.enqueue([failingJob('tile', () => new Error('The prompt was blocked.'))]);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(getJob('tile')).toMatchObject({ status: 'failed', attempts: 1, error: 'The prompt was blocked.' });
+    queue.dispose();
+  });
+
+  it('aborts a running job when it is cancelled', async () => {
+    const queue = createGenerationQueue(OPTIONS);
+    const getJob = watchJobs(queue);
+    const job = deferredJob('tile');
+    queue.enqueue([job.spec]);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(getJob('tile')?.status).toBe('running');
+
+    queue.cancel(getJob('tile')!.id);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(job.getSignal()?.aborted).toBe(true);
+    expect(getJob('tile')?.status).toBe('cancelled');
+    queue.dispose();
+  });
+
+  it('cancels queued and retrying jobs, and lets running ones finish', async () => {
+    const queue = createGenerationQueue(OPTIONS);
+    const getJob = watchJobs(queue);
+    const running = deferredJob('running');
+    queue.enqueue([failingJob('retrying', serverError), running.spec, deferredJob('queued').spec]);
+
+    await vi.advanceTimersByTimeAsync(10);
+    expect(getJob('retrying')?.status).toBe('retrying');
+    expect(getJob('running')?.status).toBe('running');
+    expect(getJob('queued')?.status).toBe('queued');
+
+    queue.cancelQueued();
+    expect(getJob('retrying')?.status).toBe('cancelled');
+    expect(getJob('queued')?.status).toBe('cancelled');
+    expect(running.getSignal()?.aborted).toBe(false);
+
+    running.resolve();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getJob('running')?.status).toBe('succeeded');
+    expect(getJob('retrying')?.status).toBe('cancelled');
+    queue.dispose();
+  });
+
+  it('runs a cancelled job again with fresh attempts when it is retried', async () => {
+    const queue = createGenerationQueue(OPTIONS);
+    const getJob = watchJobs(queue);
+    const blocker = deferredJob('blocker');
+    let calls = 0;
+    queue.enqueue([blocker.spec, { label: 'tile', tileKeys: ['tile'], run: async () => { calls++; } }]);
+
+    queue.cancel(getJob('tile')!.id);
+    blocker.resolve();
+    await vi.advanceTimersByTimeAsync(10);
+    expect(getJob('tile')?.status).toBe('cancelled');
+    expect(calls).toBe(0);
+
+    queue.retry(getJob('tile')!.id);
+    await vi.advanceTimersByTimeAsync(10);
+    expect(getJob('tile')).toMatchObject({ status: 'succeeded', attempts: 1 });
+    expect(calls).toBe(1);
+    queue.dispose();
+  });
+});
@@ -0,0 +1,261 @@
+import type { GenerationJob } from '../types';
+import {
+  GENERATION_CONCURRENCY,
+  GENERATION_REQUESTS_PER_MINUTE,
+  GENERATION_MAX_ATTEMPTS,
+  GENERATION_RETRY_BASE_DELAY_MS,
+  GENERATION_RETRY_MAX_DELAY_MS,
+} from '../constants';
+
+export interface GenerationQueueOptions {
+  // The maximum number of jobs running at the same time.
+  concurrency: number;
+  // The maximum number of jobs started per minute. Starts are spaced evenly rather than sent in bursts.
+  requestsPerMinute: number;
+  // How many times a job is attempted before it is marked as failed, counting the first attempt.
+  maxAttempts: number;
+  // The delay before the first retry. Each further retry waits up to twice as long, capped at `maxRetryDelayMs`.
+  baseRetryDelayMs: number;
+  maxRetryDelayMs: number;
+}
+
+/**
+ * A unit of work for the queue, e.g. restyling one tile or one mosaic block.
+ */
+export interface GenerationJobSpec {
+  label: string;
+  tileKeys: string[];
+  // Does the work. It should reject promptly once the signal is aborted, and must not apply any results after that.
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Runs generation jobs in the background with a concurrency cap and rate limit, retrying rate-limited and
+ * server errors with exponential backoff.
+ */
+export interface GenerationQueue {
+  enqueue: (specs: GenerationJobSpec[]) => void;
+  // Cancels a queued, running or retrying job. Running jobs are aborted through their signal.
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  // Cancels the jobs that are queued or waiting to retry, and lets running ones finish.
+  cancelQueued: () => void;
+  // Queues a failed or cancelled job again, with a fresh set of attempts.
+  retry: (id: string) => void;
+  // Removes succeeded, failed and cancelled jobs from the list.
+  clearFinished: () => void;
+  // Calls the listener with the current jobs now and after every change. Returns a function that unsubscribes.
+  subscribe: (listener: (jobs: GenerationJob[]) => void) => () => void;
+  // Cancels every job. The queue must not be used afterwards.
+  dispose: () => void;
+}
+
+interface QueueEntry {
+  job: GenerationJob;
+  spec: GenerationJobSpec;
+  controller: AbortController | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const isActive = (job: GenerationJob) => job.status === 'queued' || job.status === 'running' || job.status === 'retrying';
+
+/**
+ * Tells apart errors that are worth retrying (rate limiting, server errors, network failures) from ones that
+ * will fail the same way again, such as a rejected prompt or a missing image.
+ * @param err - The error a job failed with.
+ * @returns True if the job should be retried.
+ */
+export const isRetryableError = (err: unknown): boolean => {
+  // The Gemini SDK's ApiError carries the HTTP status.
+  const status = (err as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  if (err instanceof TypeError) return /fetch|network/i.test(err.message);
+  return err instanceof Error && /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(err.message);
+};
+
+/**
+ * Computes how long to wait before retrying, doubling with every attempt. Half of the delay is random, so
+ * jobs that failed together don't all retry at the same moment.
+ * @param attempt - The number of attempts made so far.
+ * @param options - The queue options with the base and maximum delay.
+ * @returns The delay in milliseconds.
+ */
+export const getRetryDelay = (attempt: number, { baseRetryDelayMs, maxRetryDelayMs }: GenerationQueueOptions): number => {
+  const ceiling = Math.min(maxRetryDelayMs, baseRetryDelayMs * Math.pow(2, attempt - 1));
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+/**
+ * Creates a generation queue.
+ * @param options - Concurrency, rate limit and retry settings.
+ * @returns The queue.
+ */
+export const createGenerationQueue = (options: GenerationQueueOptions): GenerationQueue => {
+  const minStartIntervalMs = 60_000 / options.requestsPerMinute;
+  const listeners = new Set<(jobs: GenerationJob[]) => void>();
+  let entries: QueueEntry[] = [];
+  let runningCount = 0;
+  let nextStartAt = 0;
+  let nextJobId = 1;
+  let pumpTimer: ReturnType<typeof setTimeout> | null = null;
+  let isDisposed = false;
+
+  const publish = () => {
+    const jobs = entries.map(entry => entry.job);
+    listeners.forEach(listener => listener(jobs));
+  };
+
+  const update = (entry: QueueEntry, patch: Partial<GenerationJob>) => {
+    entry.job = { ...entry.job, ...patch };
+  };
+
+  const start = (entry: QueueEntry) => {
+    const controller = new AbortController();
+    entry.controller = controller;
+    runningCount++;
+    update(entry, { status: 'running', attempts: entry.job.attempts + 1, nextAttemptAt: undefined });
+    console.log(`Starting ${entry.job.label} (attempt ${entry.job.attempts}).`);
+
+    entry.spec.run(controller.signal)
+      .then(() => {
+        if (controller.signal.aborted) return;
+        update(entry, { status: 'succeeded', error: undefined });
+      }, err => {
+        // Cancelling already updated the job.
+        if (controller.signal.aborted) return;
+        const message = err instanceof Error ? err.message : 'An unknown error occurred during style generation.';
+
+        if (isRetryableError(err) && entry.job.attempts < options.maxAttempts) {
+          const delay = getRetryDelay(entry.job.attempts, options);
+          console.warn(`${entry.job.label} failed; retrying in ${Math.round(delay / 1000)}s:`, err);
+          update(entry, { status: 'retrying', error: message, nextAttemptAt: Date.now() + delay });
+          entry.retryTimer = setTimeout(() => {
+            entry.retryTimer = null;
+            update(entry, { status: 'queued' });
+            publish();
+            pump();
+          }, delay);
+        } else {
+          console.error(`${entry.job.label} failed:`, err);
+          update(entry, { status: 'failed', error: message });
+        }
+      })
+      .finally(() => {
+        // A cancelled job may have been retried before its old run settled.
+        if (entry.controller === controller) entry.controller = null;
+        runningCount--;
+        publish();
+        pump();
+      });
+  };
+
+  const pump = () => {
+    if (isDisposed || pumpTimer) return;
+
+    let started = false;
+    while (runningCount < options.concurrency) {
+      const next = entries.find(entry => entry.job.status === 'queued');
+      if (!next) break;
+
+      const wait = nextStartAt - Date.now();
+      if (wait > 0) {
+        // Wait out the rate limit, then try again.
+        pumpTimer = setTimeout(() => {
+          pumpTimer = null;
+          pump();
+        }, wait);
+        break;
+      }
+      nextStartAt = Date.now() + minStartIntervalMs;
+      start(next);
+      started = true;
+    }
+    if (started) publish();
+  };
+
+  const cancelEntry = (entry: QueueEntry) => {
+    if (!isActive(entry.job)) return;
+    if (entry.retryTimer) {
+      clearTimeout(entry.retryTimer);
+      entry.retryTimer = null;
+    }
+    entry.controller?.abort();
+    update(entry, { status: 'cancelled', nextAttemptAt: undefined });
+  };
+
+  return {
+    enqueue: (specs) => {
+      // A new batch on an idle queue starts a fresh list; failures stay listed until they are retried or cleared.
+      if (!entries.some(entry => isActive(entry.job))) {
+        entries = entries.filter(entry => entry.job.status === 'failed');
+      }
+      for (const spec of specs) {
+        entries.push({
+          job: { id: `job-${nextJobId++}`, label: spec.label, tileKeys: spec.tileKeys, status: 'queued', attempts: 0 },
+          spec,
+          controller: null,
+          retryTimer: null,
+        });
+      }
+      publish();
+      pump();
+    },
+    cancel: (id) => {
+      const entry = entries.find(e => e.job.id === id);
+      if (!entry) return;
+      cancelEntry(entry);
+      publish();
+    },
+    cancelAll: () => {
+      entries.forEach(cancelEntry);
+      publish();
+    },
+    cancelQueued: () => {
+      entries.filter(entry => entry.job.status === 'queued' || entry.job.status === 'retrying').forEach(cancelEntry);
+      publish();
+    },
+    retry: (id) => {
+      const entry = entries.find(e => e.job.id === id);
+      if (!entry || (entry.job.status !== 'failed' && entry.job.status !== 'cancelled')) return;
+      update(entry, { status: 'queued', attempts: 0, error: undefined });
+      publish();
+      pump();
+    },
+    clearFinished: () => {
+      entries = entries.filter(entry => isActive(entry.job));
+      publish();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(entries.map(entry => entry.job));
+      return () => listeners.delete(listener);
+    },
+    dispose: () => {
+      isDisposed = true;
+      if (pumpTimer) clearTimeout(pumpTimer);
+      entries.forEach(cancelEntry);
+      listeners.clear();
+    },
+  };
+};
+
+/**
+ * Creates the generation queue with the build configuration's settings.
+ *
+ * `GENERATION_RATE_LIMIT` sets the maximum number of style requests started per minute.
+ * @returns The configured queue.
+ */
+export const createGenerationQueueFromConfig = (): GenerationQueue => {
+  const requestsPerMinute = process.env.GENERATION_RATE_LIMIT ? Number(process.env.GENERATION_RATE_LIMIT) : GENERATION_REQUESTS_PER_MINUTE;
+  if (!(requestsPerMinute > 0)) {
+    throw new Error(`Invalid GENERATION_RATE_LIMIT "${process.env.GENERATION_RATE_LIMIT}". Expected a positive number of requests per minute.`);
+  }
+
+  return createGenerationQueue({
+    concurrency: GENERATION_CONCURRENCY,
+    requestsPerMinute,
+    maxAttempts: GENERATION_MAX_ATTEMPTS,
+    baseRetryDelayMs: GENERATION_RETRY_BASE_DELAY_MS,
+    maxRetryDelayMs: GENERATION_RETRY_MAX_DELAY_MS,
+  });
+};
@@ -0,0 +1,171 @@
+import type { Coordinates, LatLngBounds } from '../types';
+import { GEOCODER_MAX_RESULTS } from '../constants';
+import gazetteer from '../data/gazetteer.json';
+
+export interface GeocodeResult {
+  id: string;
+  name: string;
+  // Extra context shown under the name, such as the address or the city and country.
+  description?: string;
+  center: Coordinates;
+  // The area the place covers, used to pick a zoom level that fits it.
+  bounds?: LatLngBounds;
+}
+
+/**
+ * A backend that turns a free-text place query into matching locations.
+ */
+export interface Geocoder {
+  id: string;
+  name: string;
+  search: (query: string, signal?: AbortSignal) => Promise<GeocodeResult[]>;
+}
+
+interface PlacesLatLng {
+  latitude: number;
+  longitude: number;
+}
+
+interface PlacesSearchResponse {
+  places?: {
+    id: string;
+    displayName?: { text: string };
+    formattedAddress?: string;
+    location: PlacesLatLng;
+    viewport?: { low: PlacesLatLng; high: PlacesLatLng };
+  }[];
+}
+
+/**
+ * Creates a geocoder backed by the Google Places API (New) text search.
+ * @param apiKey - Your Google Maps API key, with the Places API enabled.
+ * @returns The geocoder.
+ */
+export const createGooglePlacesGeocoder = (apiKey: string): Geocoder => ({
+  id: 'google',
+  name: 'Google Places',
+  search: async (query, signal) => {
+    const response = await fetch('https://places.googleapis.com/v1/places:searchText', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Goog-Api-Key': apiKey,
+        'X-Goog-FieldMask': 'places.id,places.displayName,places.formattedAddress,places.location,places.viewport',
+      },
+      body: JSON.stringify({ textQuery: query, pageSize: GEOCODER_MAX_RESULTS }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: { message: 'Could not parse error JSON' } }));
+      console.error('Place search failed. Status:', response.status, 'Response:', errorData);
+      throw new Error(`Place search failed: ${errorData.error?.message || response.statusText}`);
+    }
+
+    const data: PlacesSearchResponse = await response.json();
+    return (data.places ?? []).map(place => ({
+      id: place.id,
+      name: place.displayName?.text ?? place.formattedAddress ?? 'Unnamed place',
+      description: place.formattedAddress,
+      center: { lat: place.location.latitude, lng: place.location.longitude },
+      bounds: place.viewport && {
+        north: place.viewport.high.latitude,
+        south: place.viewport.low.latitude,
+        east: place.viewport.high.longitude,
+        west: place.viewport.low.longitude,
+      },
+    }));
+  },
+});
+
+export interface GazetteerEntry {
+  name: string;
+  description?: string;
+  lat: number;
+  lng: number;
+  // [west, south, east, north]
+  bounds?: number[];
+  aliases?: string[];
+}
+
+// Case- and accent-insensitive, so "reykjavik" finds "Reykjavík".
+const normalizeName = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+/**
+ * Scores how well a name matches a query; lower is better and null means no match.
+ */
+const matchScore = (name: string, query: string): number | null => {
+  if (name === query) return 0;
+  if (name.startsWith(query)) return 1;
+  if (name.split(/[\s-]+/).some(word => word.startsWith(query))) return 2;
+  if (name.includes(query)) return 3;
+  return null;
+};
+
+/**
+ * Creates an offline geocoder that searches a list of named places, so search works without network access.
+ * @param entries - The places to search. Defaults to the bundled gazetteer of major cities and landmarks.
+ * @returns The geocoder.
+ */
+export const createGazetteerGeocoder = (entries: GazetteerEntry[] = gazetteer): Geocoder => {
+  const indexed = entries.map((entry, i) => ({
+    entry,
+    id: `gazetteer-${i}`,
+    names: [entry.name, ...(entry.aliases ?? [])].map(normalizeName),
+  }));
+
+  return {
+    id: 'offline',
+    name: 'Offline gazetteer',
+    search: async (query) => {
+      const normalizedQuery = normalizeName(query);
+      if (!normalizedQuery) return [];
+
+      const matches: { score: number; result: GeocodeResult }[] = [];
+      for (const { entry, id, names } of indexed) {
+        const scores = names.map(name => matchScore(name, normalizedQuery)).filter((score): score is number => score !== null);
+        if (scores.length === 0) continue;
+
+        const [west, south, east, north] = entry.bounds ?? [];
+        matches.push({
+          score: Math.min(...scores),
+          result: {
+            id,
+            name: entry.name,
+            description: entry.description,
+            center: { lat: entry.lat, lng: entry.lng },
+            bounds: entry.bounds ? { north, south, east, west } : undefined,
+          },
+        });
+      }
+
+      return matches
+        .sort((a, b) => a.score - b.score || a.result.name.localeCompare(b.result.name))
+        .slice(0, GEOCODER_MAX_RESULTS)
+        .map(match => match.result);
+    },
+  };
+};
+
+/**
+ * Creates the geocoder selected by the build configuration.
+ *
+ * `GEOCODER` picks the implementation: `google` (needs `MAPS_API_KEY` with the Places API enabled) or
+ * `offline` (the bundled gazetteer). It defaults to `google` when a Maps API key is set, otherwise `offline`.
+ * @returns The configured geocoder.
+ */
+export const createGeocoderFromConfig = (): Geocoder => {
+  const geocoderType = process.env.GEOCODER || (process.env.MAPS_API_KEY ? 'google' : 'offline');
+
+  switch (geocoderType) {
+    case 'google':
+      if (!process.env.MAPS_API_KEY) {
+        throw new Error("MAPS_API_KEY environment variable not set. It is required when GEOCODER is 'google'.");
+      }
+      return createGooglePlacesGeocoder(process.env.MAPS_API_KEY);
+    case 'offline':
+      return createGazetteerGeocoder();
+    default:
+      throw new Error(`Unknown GEOCODER "${geocoderType}". Expected 'google' or 'offline'.`);
+  }
+};
@@ -0,0 +1,107 @@
+import type { MapTile } from '../types';
+import { TILE_SIZE } from '../constants';
+import { preciseTileXYToLatLng, latLngToWebMercator, WEB_MERCATOR_RADIUS, getUnwrappedTileX } from './googleMaps';
+import { loadImage, createCanvas, canvasToPngBlob } from './imageUtils';
+import { downloadBlob } from './download';
+
+// ESRI-flavoured WKT for Web Mercator (EPSG:3857), the form QGIS and ArcGIS expect in a .prj sidecar.
+export const WEB_MERCATOR_PRJ = 'PROJCS["WGS_1984_Web_Mercator_Auxiliary_Sphere",GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Mercator_Auxiliary_Sphere"],PARAMETER["False_Easting",0.0],PARAMETER["False_Northing",0.0],PARAMETER["Central_Meridian",0.0],PARAMETER["Standard_Parallel_1",0.0],PARAMETER["Auxiliary_Sphere_Type",0.0],UNIT["Meter",1.0]]';
+
+export interface GeoreferencedImage {
+  png: Blob;
+  worldFile: string;
+  prj: string;
+  width: number;
+  height: number;
+  // Tiles whose image could not be loaded and were left transparent.
+  missingTileKeys: string[];
+}
+
+/**
+ * Builds the contents of an ESRI world file for an image whose top-left corner sits at a tile corner.
+ * @param tileX - The x coordinate of the image's top-left tile.
+ * @param tileY - The y coordinate of the image's top-left tile.
+ * @param zoom - Zoom level.
+ * @returns The six-line world file.
+ */
+export const buildWorldFile = (tileX: number, tileY: number, zoom: number): string => {
+  const topLeft = preciseTileXYToLatLng(tileX, tileY, zoom);
+  const { x: originX, y: originY } = latLngToWebMercator(topLeft.lat, topLeft.lng);
+  const pixelSize = (2 * Math.PI * WEB_MERCATOR_RADIUS) / (TILE_SIZE * Math.pow(2, zoom));
+
+  // World files reference the centre of the top-left pixel, not its outer corner.
+  return [
+    pixelSize,
+    0,
+    0,
+    -pixelSize,
+    originX + pixelSize / 2,
+    originY - pixelSize / 2,
+  ].map(value => value.toFixed(10)).join('\n') + '\n';
+};
+
+/**
+ * Stitches tiles into one full-resolution image, drawing styled tiles over their originals,
+ * and computes the Web Mercator georeferencing for it.
+ * @param tiles - The tiles to stitch. They must all share a zoom level.
+ * @param styledTiles - Styled tile images keyed by tile key, drawn instead of the original where present.
+ * @returns A promise that resolves to the PNG and its sidecar file contents.
+ */
+export const renderGeoreferencedImage = async (tiles: MapTile[], styledTiles: Record<string, string>): Promise<GeoreferencedImage> => {
+  if (tiles.length === 0) {
+    throw new Error('There are no map tiles to export.');
+  }
+
+  const zoom = tiles[0].zoom;
+  // Tiles across the antimeridian have wrapped around; laying them out by grid position keeps them side by side.
+  const columnOf = (tile: MapTile) => getUnwrappedTileX(tile, tiles[0]);
+  const minX = Math.min(...tiles.map(columnOf));
+  const minY = Math.min(...tiles.map(t => t.y));
+  const maxX = Math.max(...tiles.map(columnOf));
+  const maxY = Math.max(...tiles.map(t => t.y));
+  const { canvas, ctx } = createCanvas((maxX - minX + 1) * TILE_SIZE, (maxY - minY + 1) * TILE_SIZE);
+
+  const missingTileKeys: string[] = [];
+  await Promise.all(tiles.map(async tile => {
+    const styledUrl = styledTiles[tile.key];
+    try {
+      const img = await loadImage(styledUrl ?? tile.url);
+      ctx.drawImage(img, (columnOf(tile) - minX) * TILE_SIZE, (tile.y - minY) * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+      // Styled tiles made in label-preserving mode get their labels back, as on screen.
+      if (styledUrl && tile.labelsUrl) {
+        const labels = await loadImage(tile.labelsUrl);
+        ctx.drawImage(labels, (columnOf(tile) - minX) * TILE_SIZE, (tile.y - minY) * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+      }
+    } catch (err) {
+      console.warn(`Export: could not load tile ${tile.key}, leaving it transparent.`, err);
+      missingTileKeys.push(tile.key);
+    }
+  }));
+
+  return {
+    png: await canvasToPngBlob(canvas),
+    worldFile: buildWorldFile(minX, minY, zoom),
+    prj: WEB_MERCATOR_PRJ,
+    width: canvas.width,
+    height: canvas.height,
+    missingTileKeys,
+  };
+};
+
+/**
+ * Renders the tiles into a georeferenced PNG and downloads it with its `.pgw` world file and `.prj` projection.
+ * @param tiles - The tiles to export.
+ * @param styledTiles - Styled tile images keyed by tile key.
+ * @returns A promise that resolves to the rendered export, once the downloads have been started.
+ */
+export const exportGeoreferencedImage = async (tiles: MapTile[], styledTiles: Record<string, string>): Promise<GeoreferencedImage> => {
+  const image = await renderGeoreferencedImage(tiles, styledTiles);
+  const basename = `styled-map-${tiles[0].zoom}-${Math.min(...tiles.map(t => t.x))}-${Math.min(...tiles.map(t => t.y))}`;
+
+  downloadBlob(image.png, `${basename}.png`);
+  downloadBlob(new Blob([image.worldFile], { type: 'text/plain' }), `${basename}.pgw`);
+  downloadBlob(new Blob([image.prj], { type: 'text/plain' }), `${basename}.prj`);
+
+  console.log(`Exported ${image.width}x${image.height} image as ${basename}.png`);
+  return image;
+};
@@ -1,25 +1,54 @@
-import type { Coordinates, MapTile, MapData } from '../types';
-import { TILE_SIZE, POSITIONING_FACTOR, VISIBLE_GRID_DIMENSION } from '../constants';
+import type { Coordinates, MapTile, MapData, ViewportSize, LatLngBounds, MapSession, MapSessionOptions, MapLayerVariant } from '../types';
+import type { TileSource } from './tileSources';
+import { TILE_SIZE, TILE_BUFFER_RATIO } from '../constants';
 
 interface GetTilesParams {
   center: Coordinates;
   zoom: number;
-  gridDimension: number;
-  sessionToken: string;
-  apiKey: string;
+  viewport: ViewportSize;
+  tileSource: TileSource;
+  sessionToken: string | null;
+  // Session tokens for the label-free and labels-only layers, in label-preserving mode.
+  labelLayerTokens?: { unlabeled: string; labels: string } | null;
+  // The tile that grid position (0, 0) refers to. Keep it fixed while panning so tile positions stay stable.
+  origin: { x: number; y: number };
 }
 
+// Session settings for the label-preserving layers, applied on top of the user's options.
+// `styles` takes the same style rules as the Maps JavaScript API.
+const LAYER_VARIANT_SETTINGS: Record<MapLayerVariant, object> = {
+  standard: {},
+  unlabeled: {
+    styles: [{ elementType: 'labels', stylers: [{ visibility: 'off' }] }],
+  },
+  // An overlay session renders only its layers on a transparent background; hiding their geometry leaves the labels.
+  labels: {
+    mapType: 'roadmap',
+    layerTypes: ['layerRoadmap'],
+    overlay: true,
+    styles: [{ elementType: 'geometry', stylers: [{ visibility: 'off' }] }],
+  },
+};
+
 /**
- * Fetches a session token required for the Google Maps Tiles API.
+ * Creates a session for the Google Maps Tiles API.
  * @param apiKey - Your Google Maps API key.
- * @returns A promise that resolves to the session token string.
+ * @param options - The map type, overlays, language, region and scale of the session's tiles.
+ * @param variant - Whether the tiles show the full map, the map without labels, or only the labels.
+ * @returns A promise that resolves to the session token and its expiry.
  */
-export const fetchSessionToken = async (apiKey: string): Promise<string> => {
+export const fetchSession = async (apiKey: string, options: MapSessionOptions, variant: MapLayerVariant = 'standard'): Promise<MapSession> => {
   const url = `https://tile.googleapis.com/v1/createSession?key=${apiKey}`;
   const body = JSON.stringify({
-    mapType: 'roadmap',
-    language: 'en-US',
-    region: 'US',
+    mapType: options.mapType,
+    language: options.language,
+    region: options.region,
+    scale: options.scale,
+    // Terrain tiles are rejected without the roadmap layer.
+    ...(options.layerTypes.length > 0 || options.mapType === 'terrain'
+      ? { layerTypes: options.mapType === 'terrain' ? [...new Set(['layerRoadmap', ...options.layerTypes])] : options.layerTypes }
+      : {}),
+    ...LAYER_VARIANT_SETTINGS[variant],
   });
   console.log('Fetching session token from:', url);
   
@@ -36,8 +65,52 @@ export const fetchSessionToken = async (apiKey: string): Promise<string> => {
   }
 
   const data = await response.json();
-  console.log('Successfully created session:', data.session);
-  return data.session;
+  console.log('Successfully created session:', data.session, 'expiring', data.expiry);
+  // The expiry is given in seconds since the epoch, as a string.
+  const expiresAt = Number(data.expiry) * 1000;
+  return { token: data.session, expiresAt: Number.isFinite(expiresAt) ? expiresAt : Infinity };
+};
+
+/**
+ * Describes session options as a stable string, to tell apart tiles rendered with different options.
+ * @param options - The session options.
+ * @returns A string that changes whenever an option that affects the tiles changes.
+ */
+export const describeSessionOptions = (options: MapSessionOptions): string =>
+  [options.mapType, [...options.layerTypes].sort().join('+'), options.language, options.region, options.scale].join('|');
+
+/**
+ * Builds the key that identifies a tile across the app, `${zoom}-${x}-${y}`.
+ * @param zoom - Zoom level.
+ * @param x - The tile's x coordinate.
+ * @param y - The tile's y coordinate.
+ * @returns The tile key.
+ */
+export const toTileKey = (zoom: number, x: number, y: number): string => `${zoom}-${x}-${y}`;
+
+/**
+ * Parses a tile key created by `toTileKey`.
+ * @param key - The tile key.
+ * @returns An object with the zoom level and tile coordinates, or null if the key is malformed.
+ */
+export const parseTileKey = (key: string): { zoom: number; x: number; y: number } | null => {
+  const match = /^(\d+)-(\d+)-(\d+)$/.exec(key);
+  if (!match) return null;
+  return { zoom: Number(match[1]), x: Number(match[2]), y: Number(match[3]) };
+};
+
+/**
+ * Finds the tile that contains a tile some zoom levels further out.
+ * @param zoom - Zoom level of the tile.
+ * @param x - The tile's x coordinate.
+ * @param y - The tile's y coordinate.
+ * @param levels - How many zoom levels to go up.
+ * @returns The ancestor tile's zoom level and coordinates, or null if it would be above zoom 0.
+ */
+export const getAncestorTile = (zoom: number, x: number, y: number, levels: number): { zoom: number; x: number; y: number } | null => {
+  if (levels > zoom) return null;
+  const factor = Math.pow(2, levels);
+  return { zoom: zoom - levels, x: Math.floor(x / factor), y: Math.floor(y / factor) };
 };
 
 /**
@@ -56,66 +129,123 @@ export const latLngToPreciseTileXY = (lat: number, lng: number, zoom: number): {
 };
 
 /**
- * Generates an array of map tile objects for a specified area.
+ * Wraps a tile column around the antimeridian into the zoom level's range.
+ * @param x - The tile's x coordinate, possibly past either edge of the world.
+ * @param zoom - Zoom level.
+ * @returns The x coordinate, from 0 to 2^zoom - 1.
+ */
+export const wrapTileX = (x: number, zoom: number): number => {
+  const n = Math.pow(2, zoom);
+  return ((x % n) + n) % n;
+};
+
+/**
+ * Wraps a longitude into the range -180 (inclusive) to 180 (exclusive).
+ * @param lng - The longitude, possibly more than a full turn away.
+ * @returns The equivalent longitude.
+ */
+export const normalizeLng = (lng: number): number => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * Finds a tile's x coordinate on the same unwrapped scale as another tile of the grid, so that tiles on either
+ * side of the antimeridian stay next to each other.
+ * @param tile - The tile.
+ * @param reference - Another tile laid out relative to the same origin.
+ * @returns The x coordinate, which may lie outside the zoom level's range.
+ */
+export const getUnwrappedTileX = (tile: MapTile, reference: MapTile): number => reference.x + tile.gridX - reference.gridX;
+
+/**
+ * Builds the map tile object for a tile.
+ * @param tileSource - The source of the base map tiles.
+ * @param zoom - Zoom level.
+ * @param x - The tile's x coordinate. Columns past either edge of the world wrap around, but keep their grid position.
+ * @param y - The tile's y coordinate.
+ * @param sessionToken - The session token, for sources that need one.
+ * @param labelLayerTokens - Session tokens for the label-free and labels-only layers, in label-preserving mode.
+ * @param origin - The tile that grid position (0, 0) refers to.
+ * @returns The map tile.
+ */
+export const buildMapTile = (
+  tileSource: TileSource,
+  zoom: number,
+  x: number,
+  y: number,
+  sessionToken: string | null,
+  labelLayerTokens: { unlabeled: string; labels: string } | null | undefined,
+  origin: { x: number; y: number },
+): MapTile => {
+  const wrappedX = wrapTileX(x, zoom);
+  return {
+    url: tileSource.getTileUrl(zoom, wrappedX, y, sessionToken),
+    x: wrappedX,
+    y,
+    zoom,
+    // Positions are relative to a fixed origin rather than the grid start, so a tile keeps its place
+    // (and stays mounted) while the grid slides around it during panning.
+    gridX: x - origin.x,
+    gridY: y - origin.y,
+    key: toTileKey(zoom, wrappedX, y),
+    ...(labelLayerTokens && {
+      unlabeledUrl: tileSource.getTileUrl(zoom, wrappedX, y, labelLayerTokens.unlabeled),
+      labelsUrl: tileSource.getTileUrl(zoom, wrappedX, y, labelLayerTokens.labels),
+    }),
+  };
+};
+
+/**
+ * Generates an array of map tile objects covering the viewport, plus a buffer of off-screen tiles for panning.
+ * This runs on every pan step, so it only computes URLs and positions and never touches the network itself.
  * @param params - The parameters for generating the tiles.
- * @returns A promise that resolves to a MapData object containing tiles and a pixel offset.
+ * @returns A MapData object containing tiles and a pixel offset.
  */
-export const getTilesForArea = async ({
+export const getTilesForArea = ({
   center,
   zoom,
-  gridDimension,
+  viewport,
+  tileSource,
   sessionToken,
-  apiKey,
-}: GetTilesParams): Promise<MapData> => {
-  console.log(`getTilesForArea called with:`, { center, zoom, gridDimension });
-  
+  labelLayerTokens,
+  origin,
+}: GetTilesParams): MapData => {
   const preciseCenter = latLngToPreciseTileXY(center.lat, center.lng, zoom);
-  const integerCenter = { x: Math.floor(preciseCenter.x), y: Math.floor(preciseCenter.y) };
-  console.log(`Center tile coordinates (precise):`, preciseCenter);
-  console.log(`Center tile coordinates (integer):`, integerCenter);
 
-  const halfGrid = Math.floor(gridDimension / 2);
-  const startX = integerCenter.x - halfGrid;
-  const startY = integerCenter.y - halfGrid;
-  console.log(`Grid start coordinates (startX, startY):`, { startX, startY });
+  // The buffer grows with the viewport, so a large map still has tiles ready on every side when panning.
+  const visibleTilesAcross = Math.max(viewport.width, viewport.height) / TILE_SIZE;
+  const buffer = Math.max(1, Math.ceil(visibleTilesAcross * TILE_BUFFER_RATIO));
+
+  const halfWidthInTiles = viewport.width / 2 / TILE_SIZE;
+  const halfHeightInTiles = viewport.height / 2 / TILE_SIZE;
+  const worldSize = Math.pow(2, zoom);
+  let startX = Math.floor(preciseCenter.x - halfWidthInTiles) - buffer;
+  let endX = Math.floor(preciseCenter.x + halfWidthInTiles) + buffer;
+  // Columns wrap around the antimeridian, so a grid wider than the world would show tiles twice.
+  if (endX - startX + 1 > worldSize) {
+    startX = Math.floor(preciseCenter.x) - Math.floor(worldSize / 2);
+    endX = startX + worldSize - 1;
+  }
+  // Rows don't wrap: there is nothing beyond the poles.
+  const startY = Math.max(0, Math.floor(preciseCenter.y - halfHeightInTiles) - buffer);
+  const endY = Math.min(worldSize - 1, Math.floor(preciseCenter.y + halfHeightInTiles) + buffer);
 
   const tiles: MapTile[] = [];
 
-  for (let i = 0; i < gridDimension; i++) {
-    for (let j = 0; j < gridDimension; j++) {
-      const tileX = startX + j;
-      const tileY = startY + i;
-      
-      const url = `https://tile.googleapis.com/v1/2dtiles/${zoom}/${tileX}/${tileY}?session=${sessionToken}&key=${apiKey}`;
-      
-      tiles.push({
-        url,
-        gridX: j,
-        gridY: i,
-        key: `${zoom}-${tileX}-${tileY}`,
-      });
+  for (let tileY = startY; tileY <= endY; tileY++) {
+    for (let tileX = startX; tileX <= endX; tileX++) {
+      tiles.push(buildMapTile(tileSource, zoom, tileX, tileY, sessionToken, labelLayerTokens, origin));
     }
   }
 
-  const step = TILE_SIZE * POSITIONING_FACTOR;
-  
-  // Calculate the precise pixel coordinate of the target lat/lng within the fetched grid's coordinate space.
-  const targetPixelInGridX = (preciseCenter.x - startX) * TILE_SIZE;
-  const targetPixelInGridY = (preciseCenter.y - startY) * TILE_SIZE;
-
-  // Calculate the pixel center of the visible viewport.
-  const viewportWidth = (VISIBLE_GRID_DIMENSION - 1) * step + TILE_SIZE;
-  const viewportHeight = (VISIBLE_GRID_DIMENSION - 1) * step + TILE_SIZE;
-  const viewportCenterX = viewportWidth / 2;
-  const viewportCenterY = viewportHeight / 2;
+  // Calculate the precise pixel coordinate of the target lat/lng within the origin's coordinate space.
+  const targetPixelInGridX = (preciseCenter.x - origin.x) * TILE_SIZE;
+  const targetPixelInGridY = (preciseCenter.y - origin.y) * TILE_SIZE;
 
   // The final translation is the difference between where the center *should be* (viewport center)
   // and where it *is* (its pixel coordinate in the grid).
   // This value can be used directly in a CSS transform.
-  const finalTranslateX = viewportCenterX - targetPixelInGridX;
-  const finalTranslateY = viewportCenterY - targetPixelInGridY;
+  const finalTranslateX = viewport.width / 2 - targetPixelInGridX;
+  const finalTranslateY = viewport.height / 2 - targetPixelInGridY;
 
-  console.log(`Generated a total of ${tiles.length} tiles.`);
   return {
     tiles,
     offset: { x: finalTranslateX, y: finalTranslateY },
@@ -136,4 +266,60 @@ export const preciseTileXYToLatLng = (x: number, y: number, zoom: number): { lat
   const latRad = Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / n)));
   const latDeg = (latRad * 180) / Math.PI;
   return { lat: latDeg, lng: lngDeg };
-};
\ No newline at end of file
+};
+
+/**
+ * Changes the zoom level while keeping a point on screen fixed, as when zooming towards the cursor.
+ * @param center - The current map centre.
+ * @param zoom - The current zoom level.
+ * @param newZoom - The zoom level to change to.
+ * @param anchor - The fixed point, in pixels relative to the viewport centre. (0, 0) zooms around the centre.
+ * @returns The new map centre.
+ */
+export const zoomAroundPoint = (
+  center: Coordinates,
+  zoom: number,
+  newZoom: number,
+  anchor: { x: number; y: number },
+): Coordinates => {
+  const preciseCenter = latLngToPreciseTileXY(center.lat, center.lng, zoom);
+  const scale = Math.pow(2, newZoom - zoom);
+  // The anchor's tile coordinates scale with the zoom; its pixel offset from the centre does not.
+  const anchorTileX = (preciseCenter.x + anchor.x / TILE_SIZE) * scale;
+  const anchorTileY = (preciseCenter.y + anchor.y / TILE_SIZE) * scale;
+  const { lat, lng } = preciseTileXYToLatLng(anchorTileX - anchor.x / TILE_SIZE, anchorTileY - anchor.y / TILE_SIZE, newZoom);
+  return { lat, lng: normalizeLng(lng) };
+};
+
+/**
+ * Finds the highest zoom level at which an area fits in the viewport.
+ * @param bounds - The area to fit.
+ * @param viewport - The size of the map viewport.
+ * @returns The zoom level, not clamped to the supported range. Areas without extent return Infinity.
+ */
+export const zoomForBounds = (bounds: LatLngBounds, viewport: ViewportSize): number => {
+  const northWest = latLngToPreciseTileXY(bounds.north, bounds.west, 0);
+  const southEast = latLngToPreciseTileXY(bounds.south, bounds.east, 0);
+  // At zoom 0 the whole world is one tile wide; an area crossing the antimeridian wraps around it.
+  const width = bounds.east >= bounds.west ? southEast.x - northWest.x : 1 - (northWest.x - southEast.x);
+  const height = southEast.y - northWest.y;
+
+  const zoomToFitWidth = Math.log2(viewport.width / (width * TILE_SIZE));
+  const zoomToFitHeight = Math.log2(viewport.height / (height * TILE_SIZE));
+  return Math.floor(Math.min(zoomToFitWidth, zoomToFitHeight));
+};
+
+// Radius of the sphere used by the Web Mercator (EPSG:3857) projection, in meters.
+export const WEB_MERCATOR_RADIUS = 6378137;
+
+/**
+ * Projects latitude and longitude to Web Mercator (EPSG:3857) coordinates.
+ * @param lat - Latitude.
+ * @param lng - Longitude.
+ * @returns An object with the x (easting) and y (northing) coordinates in meters.
+ */
+export const latLngToWebMercator = (lat: number, lng: number): { x: number; y: number } => {
+  const x = WEB_MERCATOR_RADIUS * (lng * Math.PI) / 180;
+  const y = WEB_MERCATOR_RADIUS * Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360));
+  return { x, y };
+};
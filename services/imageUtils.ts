@@ -1,41 +1,23 @@
+import { TILE_SIZE } from '../constants';
+
+export interface Base64Image {
+  data: string;
+  mimeType: string;
+}
 
 /**
- * Fetches an image from a URL and converts it to a base64 string using a canvas.
- * This method is more reliable than a CORS proxy for handling cross-origin images.
- * @param url The URL of the image to fetch.
- * @returns A promise that resolves to an object containing the base64 data and its MIME type.
+ * Loads an image element from a URL with CORS enabled, so it can be drawn into a canvas and read back.
+ * @param url The URL (or data URL) of the image to load.
+ * @returns A promise that resolves to the loaded image element.
  */
-export const imageUrlToBase64 = (url: string): Promise<{ data: string; mimeType: string; }> => {
+export const loadImage = (url: string): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
     // Setting crossOrigin to 'Anonymous' is crucial for loading cross-domain images
     // into a canvas without "tainting" it, which would otherwise block data extraction.
     img.crossOrigin = 'Anonymous';
 
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        return reject(new Error('Could not get 2D context from canvas.'));
-      }
-      
-      ctx.drawImage(img, 0, 0);
-      
-      try {
-        // toDataURL() will throw a security error if the canvas is tainted.
-        const dataUrl = canvas.toDataURL(); // Defaults to 'image/png'
-        const mimeType = dataUrl.substring(dataUrl.indexOf(':') + 1, dataUrl.indexOf(';'));
-        const data = dataUrl.substring(dataUrl.indexOf(',') + 1);
-        resolve({ data, mimeType });
-      } catch (e) {
-        const errorMessage = e instanceof Error ? e.message : String(e);
-        console.error("Canvas toDataURL error:", e);
-        reject(new Error(`Could not convert canvas to data URL due to a security restriction (tainted canvas). ${errorMessage}`));
-      }
-    };
+    img.onload = () => resolve(img);
 
     img.onerror = () => {
       // This error often fires for CORS issues when crossOrigin is set.
@@ -46,3 +28,167 @@ export const imageUrlToBase64 = (url: string): Promise<{ data: string; mimeType:
     img.src = url;
   });
 };
+
+/**
+ * Creates a canvas of the given size and returns it together with its 2D context.
+ * @param width The canvas width in pixels.
+ * @param height The canvas height in pixels.
+ * @returns The canvas and its rendering context.
+ */
+export const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get 2D context from canvas.');
+  }
+  return { canvas, ctx };
+};
+
+/**
+ * Reads a canvas back as base64-encoded PNG data.
+ * @param canvas The canvas to encode.
+ * @returns An object containing the base64 data and its MIME type.
+ */
+export const canvasToBase64 = (canvas: HTMLCanvasElement): Base64Image => {
+  try {
+    // toDataURL() will throw a security error if the canvas is tainted.
+    const dataUrl = canvas.toDataURL(); // Defaults to 'image/png'
+    const mimeType = dataUrl.substring(dataUrl.indexOf(':') + 1, dataUrl.indexOf(';'));
+    const data = dataUrl.substring(dataUrl.indexOf(',') + 1);
+    return { data, mimeType };
+  } catch (e) {
+    const errorMessage = e instanceof Error ? e.message : String(e);
+    console.error("Canvas toDataURL error:", e);
+    throw new Error(`Could not convert canvas to data URL due to a security restriction (tainted canvas). ${errorMessage}`);
+  }
+};
+
+/**
+ * Fetches an image from a URL and converts it to a base64 string using a canvas.
+ * This method is more reliable than a CORS proxy for handling cross-origin images.
+ * @param url The URL of the image to fetch.
+ * @returns A promise that resolves to an object containing the base64 data and its MIME type.
+ */
+export const imageUrlToBase64 = async (url: string): Promise<Base64Image> => {
+  const img = await loadImage(url);
+  const { canvas, ctx } = createCanvas(img.width, img.height);
+  ctx.drawImage(img, 0, 0);
+  return canvasToBase64(canvas);
+};
+
+/**
+ * Draws a rectangular block of tile images side by side into a single canvas.
+ * Cells that are null are left transparent.
+ * @param urls Image URLs indexed as rows of columns.
+ * @returns A promise that resolves to the stitched canvas.
+ */
+export const stitchTileImages = async (urls: (string | null)[][]): Promise<HTMLCanvasElement> => {
+  const rows = urls.length;
+  const cols = Math.max(0, ...urls.map(row => row.length));
+  const { canvas, ctx } = createCanvas(cols * TILE_SIZE, rows * TILE_SIZE);
+
+  await Promise.all(urls.flatMap((row, rowIndex) =>
+    row.map(async (url, colIndex) => {
+      if (!url) return;
+      const img = await loadImage(url);
+      ctx.drawImage(img, colIndex * TILE_SIZE, rowIndex * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+    })
+  ));
+
+  return canvas;
+};
+
+/**
+ * Scales an image to cover a block of `cols` x `rows` tiles and cuts it back into per-tile data URLs.
+ * @param url The URL of the mosaic image to slice.
+ * @param cols The number of tile columns in the mosaic.
+ * @param rows The number of tile rows in the mosaic.
+ * @returns A promise that resolves to tile data URLs indexed as rows of columns.
+ */
+export const sliceMosaicImage = async (url: string, cols: number, rows: number): Promise<string[][]> => {
+  const img = await loadImage(url);
+  const { canvas: mosaic, ctx: mosaicCtx } = createCanvas(cols * TILE_SIZE, rows * TILE_SIZE);
+  // The model may return a different resolution than requested, so normalise to the tile grid first.
+  mosaicCtx.drawImage(img, 0, 0, mosaic.width, mosaic.height);
+
+  const { canvas, ctx } = createCanvas(TILE_SIZE, TILE_SIZE);
+  const slices: string[][] = [];
+  for (let row = 0; row < rows; row++) {
+    const rowSlices: string[] = [];
+    for (let col = 0; col < cols; col++) {
+      ctx.clearRect(0, 0, TILE_SIZE, TILE_SIZE);
+      ctx.drawImage(mosaic, col * TILE_SIZE, row * TILE_SIZE, TILE_SIZE, TILE_SIZE, 0, 0, TILE_SIZE, TILE_SIZE);
+      rowSlices.push(canvas.toDataURL());
+    }
+    slices.push(rowSlices);
+  }
+  return slices;
+};
+
+/**
+ * Reads an image file picked by the user, downscaling it so its longest side is at most `maxDimension`.
+ * @param file The image file.
+ * @param maxDimension The maximum width or height of the result in pixels.
+ * @returns A promise that resolves to the image as base64 PNG data.
+ */
+export const imageFileToBase64 = async (file: File, maxDimension: number): Promise<Base64Image> => {
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(objectUrl);
+    const scale = Math.min(1, maxDimension / Math.max(img.width, img.height));
+    const { canvas, ctx } = createCanvas(Math.round(img.width * scale), Math.round(img.height * scale));
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvasToBase64(canvas);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+/**
+ * Encodes a canvas as a PNG blob.
+ * @param canvas The canvas to encode.
+ * @returns A promise that resolves to the PNG blob.
+ */
+export const canvasToPngBlob = (canvas: HTMLCanvasElement): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Could not encode the canvas as PNG. The image may be too large or the canvas tainted.'));
+      }
+    }, 'image/png');
+  });
+};
+
+/**
+ * Crops one quadrant of a tile image and scales it up to a full tile.
+ * @param url The URL of the tile image.
+ * @param col The quadrant's column, 0 or 1.
+ * @param row The quadrant's row, 0 or 1.
+ * @returns A promise that resolves to the enlarged quadrant as a PNG data URL.
+ */
+export const enlargeTileQuadrant = async (url: string, col: number, row: number): Promise<string> => {
+  const img = await loadImage(url);
+  const { canvas, ctx } = createCanvas(TILE_SIZE, TILE_SIZE);
+  // The source may not be tile-sized, e.g. a model's output at a higher resolution.
+  const half = { width: img.width / 2, height: img.height / 2 };
+  ctx.drawImage(img, col * half.width, row * half.height, half.width, half.height, 0, 0, TILE_SIZE, TILE_SIZE);
+  return canvas.toDataURL();
+};
+
+/**
+ * Stitches a 2x2 block of tile images and scales it down to a single tile.
+ * @param urls Image URLs indexed as rows of columns.
+ * @returns A promise that resolves to the combined tile as a PNG data URL.
+ */
+export const downsampleTileImages = async (urls: string[][]): Promise<string> => {
+  const stitched = await stitchTileImages(urls);
+  const { canvas, ctx } = createCanvas(TILE_SIZE, TILE_SIZE);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(stitched, 0, 0, TILE_SIZE, TILE_SIZE);
+  return canvas.toDataURL();
+};
@@ -0,0 +1,43 @@
+import type { MapSessionOptions, MapType, MapLayerType, MapScale } from '../types';
+import { DEFAULT_MAP_SESSION_OPTIONS } from '../constants';
+
+const STORAGE_KEY = 'map-style-transfer:session-options';
+
+const MAP_TYPES: MapType[] = ['roadmap', 'satellite', 'terrain'];
+const LAYER_TYPES: MapLayerType[] = ['layerRoadmap', 'layerStreetview', 'layerTraffic'];
+const SCALES: MapScale[] = ['scaleFactor1x', 'scaleFactor2x', 'scaleFactor4x'];
+
+/**
+ * Loads the user's map session settings, falling back to the defaults for anything missing or invalid.
+ * @returns The session options.
+ */
+export const loadMapSessionOptions = (): MapSessionOptions => {
+  let stored: Partial<MapSessionOptions> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') ?? {};
+  } catch (err) {
+    console.warn('Ignoring unreadable map settings:', err);
+  }
+
+  return {
+    mapType: MAP_TYPES.includes(stored.mapType as MapType) ? stored.mapType as MapType : DEFAULT_MAP_SESSION_OPTIONS.mapType,
+    layerTypes: Array.isArray(stored.layerTypes)
+      ? stored.layerTypes.filter(layer => LAYER_TYPES.includes(layer))
+      : DEFAULT_MAP_SESSION_OPTIONS.layerTypes,
+    language: typeof stored.language === 'string' && stored.language ? stored.language : DEFAULT_MAP_SESSION_OPTIONS.language,
+    region: typeof stored.region === 'string' && stored.region ? stored.region : DEFAULT_MAP_SESSION_OPTIONS.region,
+    scale: SCALES.includes(stored.scale as MapScale) ? stored.scale as MapScale : DEFAULT_MAP_SESSION_OPTIONS.scale,
+  };
+};
+
+/**
+ * Saves the user's map session settings for the next visit.
+ * @param options - The session options.
+ */
+export const saveMapSessionOptions = (options: MapSessionOptions): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  } catch (err) {
+    console.warn('Could not save map settings:', err);
+  }
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { buildPermalink, readPermalink } from './permalink';
+import { MAX_ZOOM, MIN_ZOOM } from '../constants';
+
+describe('buildPermalink', () => {
+  it('writes the location to six decimal places, followed by the style', () => {
+    expect(buildPermalink({ location: { lat: 48.8583701, lng: 2.2944813, zoom: 17 }, stylePrompt: 'cyberpunk' }))
+      .toBe('#lat=48.858370&lng=2.294481&z=17&style=cyberpunk');
+  });
+
+  it('leaves out an empty style', () => {
+    expect(buildPermalink({ location: { lat: 0, lng: 0, zoom: 3 }, stylePrompt: '  ' })).toBe('#lat=0.000000&lng=0.000000&z=3');
+  });
+});
+
+describe('readPermalink', () => {
+  it('reads back what buildPermalink wrote', () => {
+    const state = { location: { lat: -33.856784, lng: 151.215297, zoom: 15 }, stylePrompt: 'watercolor & ink, 50% wash' };
+    expect(readPermalink(buildPermalink(state))).toEqual(state);
+  });
+
+  it('accepts a hash without the leading #', () => {
+    expect(readPermalink('lat=1&lng=2&z=3')).toEqual({ location: { lat: 1, lng: 2, zoom: 3 } });
+  });
+
+  it('reads the style on its own when the location is missing or incomplete', () => {
+    expect(readPermalink('#lat=1&lng=2&style=sepia')).toEqual({ stylePrompt: 'sepia' });
+    expect(readPermalink('#style=%20%20')).toEqual({});
+  });
+
+  it('rejects out-of-range coordinates and zoom levels', () => {
+    expect(readPermalink('#lat=90.5&lng=0&z=3').location).toBeUndefined();
+    expect(readPermalink('#lat=0&lng=-180.1&z=3').location).toBeUndefined();
+    expect(readPermalink(`#lat=0&lng=0&z=${MIN_ZOOM - 1}`).location).toBeUndefined();
+    expect(readPermalink(`#lat=0&lng=0&z=${MAX_ZOOM + 1}`).location).toBeUndefined();
+    expect(readPermalink('#lat=0&lng=0&z=3.5').location).toBeUndefined();
+    expect(readPermalink('#lat=north&lng=0&z=3').location).toBeUndefined();
+  });
+
+  it('accepts the edges of the valid ranges', () => {
+    expect(readPermalink(`#lat=-90&lng=180&z=${MAX_ZOOM}`).location).toEqual({ lat: -90, lng: 180, zoom: MAX_ZOOM });
+  });
+});
@@ -0,0 +1,56 @@
+import type { LocationState } from '../types';
+import { MIN_ZOOM, MAX_ZOOM } from '../constants';
+
+export interface PermalinkState {
+  location: LocationState;
+  stylePrompt: string;
+}
+
+// Six decimal places is about 10 cm at the equator, finer than a pixel at any supported zoom.
+const COORDINATE_PRECISION = 6;
+
+/**
+ * Reads the view and style from a permalink hash such as `#lat=48.8584&lng=2.2945&z=17&style=cyberpunk`.
+ * @param hash - The URL hash, with or without the leading `#`.
+ * @returns The parts of the permalink that are present and valid.
+ */
+export const readPermalink = (hash: string): Partial<PermalinkState> => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const result: Partial<PermalinkState> = {};
+
+  const lat = Number(params.get('lat'));
+  const lng = Number(params.get('lng'));
+  const zoom = Number(params.get('z'));
+  if (
+    params.has('lat') && params.has('lng') && params.has('z') &&
+    Number.isFinite(lat) && Math.abs(lat) <= 90 &&
+    Number.isFinite(lng) && Math.abs(lng) <= 180 &&
+    Number.isInteger(zoom) && zoom >= MIN_ZOOM && zoom <= MAX_ZOOM
+  ) {
+    result.location = { lat, lng, zoom };
+  }
+
+  const style = params.get('style');
+  if (style?.trim()) {
+    result.stylePrompt = style;
+  }
+
+  return result;
+};
+
+/**
+ * Builds the permalink hash for a view and style.
+ * @param state - The location and style prompt to encode.
+ * @returns The hash, including the leading `#`.
+ */
+export const buildPermalink = ({ location, stylePrompt }: PermalinkState): string => {
+  const params = new URLSearchParams({
+    lat: location.lat.toFixed(COORDINATE_PRECISION),
+    lng: location.lng.toFixed(COORDINATE_PRECISION),
+    z: String(location.zoom),
+  });
+  if (stylePrompt.trim()) {
+    params.set('style', stylePrompt);
+  }
+  return `#${params.toString()}`;
+};
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { writePMTiles, zxyToTileId } from './pmtiles';
+import type { PMTilesOptions, PMTilesTile } from './pmtiles';
+
+const OPTIONS: PMTilesOptions = {
+  tileType: 'png',
+  metadata: { name: 'Test' },
+  bounds: { minLng: -180, minLat: -85, maxLng: 180, maxLat: 85 },
+  center: { lng: 0, lat: 0, zoom: 1 },
+};
+
+const tile = (zoom: number, x: number, y: number, ...bytes: number[]): PMTilesTile => ({ zoom, x, y, data: new Uint8Array(bytes) });
+
+/**
+ * Reads the entries of an uncompressed directory, with offsets resolved.
+ */
+const readDirectory = (bytes: Uint8Array) => {
+  let position = 0;
+  const readVarint = () => {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = bytes[position++];
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+    }
+  };
+
+  const count = readVarint();
+  const entries = Array.from({ length: count }, () => ({ tileId: 0, runLength: 0, length: 0, offset: 0 }));
+  let lastId = 0;
+  for (const entry of entries) entry.tileId = lastId += readVarint();
+  for (const entry of entries) entry.runLength = readVarint();
+  for (const entry of entries) entry.length = readVarint();
+  entries.forEach((entry, i) => {
+    const offset = readVarint();
+    entry.offset = offset === 0 ? entries[i - 1].offset + entries[i - 1].length : offset - 1;
+  });
+  expect(position).toBe(bytes.length);
+  return entries;
+};
+
+const readArchive = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const u64 = (position: number) => Number(view.getBigUint64(position, true));
+  const header = {
+    magic: new TextDecoder().decode(bytes.subarray(0, 7)),
+    version: view.getUint8(7),
+    rootOffset: u64(8),
+    rootLength: u64(16),
+    metadataOffset: u64(24),
+    metadataLength: u64(32),
+    leavesOffset: u64(40),
+    leavesLength: u64(48),
+    tileDataOffset: u64(56),
+    tileDataLength: u64(64),
+    tileEntries: u64(80),
+    tileType: view.getUint8(99),
+    minZoom: view.getUint8(100),
+    maxZoom: view.getUint8(101),
+    minLng: view.getInt32(102, true),
+    maxLat: view.getInt32(114, true),
+    centerZoom: view.getUint8(118),
+  };
+  const slice = (offset: number, length: number) => bytes.subarray(offset, offset + length);
+  return { bytes, header, slice };
+};
+
+describe('zxyToTileId', () => {
+  it('numbers the tiles of each zoom level along a Hilbert curve after those of lower zoom levels', () => {
+    expect(zxyToTileId(0, 0, 0)).toBe(0);
+    expect([[0, 0], [0, 1], [1, 1], [1, 0]].map(([x, y]) => zxyToTileId(1, x, y))).toEqual([1, 2, 3, 4]);
+    expect(zxyToTileId(2, 0, 0)).toBe(5);
+    expect(zxyToTileId(12, 3423, 1763)).toBe(19078479);
+  });
+
+  it('gives every tile of a zoom level its own id', () => {
+    const ids = new Set<number>();
+    for (let x = 0; x < 8; x++) {
+      for (let y = 0; y < 8; y++) ids.add(zxyToTileId(3, x, y));
+    }
+    expect(ids.size).toBe(64);
+    expect(Math.min(...ids)).toBe(21);
+    expect(Math.max(...ids)).toBe(84);
+  });
+
+  it('handles ids beyond 32 bits', () => {
+    expect(zxyToTileId(20, 0, 0)).toBe((Math.pow(4, 20) - 1) / 3);
+  });
+
+  it('rejects tiles outside their zoom level', () => {
+    expect(() => zxyToTileId(1, 2, 0)).toThrow('outside the bounds');
+    expect(() => zxyToTileId(1, 0, -1)).toThrow('outside the bounds');
+  });
+});
+
+describe('writePMTiles', () => {
+  it('writes the header, root directory, metadata and tile data in order', async () => {
+    const { header, slice } = await readArchive(writePMTiles([tile(1, 1, 0, 4, 4), tile(0, 0, 0, 1), tile(1, 0, 0, 2, 2, 2)], OPTIONS));
+
+    expect(header).toMatchObject({
+      magic: 'PMTiles',
+      version: 3,
+      rootOffset: 127,
+      leavesLength: 0,
+      tileDataLength: 6,
+      tileEntries: 3,
+      tileType: 2,
+      minZoom: 0,
+      maxZoom: 1,
+      minLng: -1_800_000_000,
+      maxLat: 850_000_000,
+      centerZoom: 1,
+    });
+    expect(header.metadataOffset).toBe(header.rootOffset + header.rootLength);
+    expect(header.leavesOffset).toBe(header.metadataOffset + header.metadataLength);
+    expect(header.tileDataOffset).toBe(header.leavesOffset + header.leavesLength);
+    expect(JSON.parse(new TextDecoder().decode(slice(header.metadataOffset, header.metadataLength)))).toEqual({ name: 'Test' });
+
+    const entries = readDirectory(slice(header.rootOffset, header.rootLength));
+    expect(entries).toEqual([
+      { tileId: 0, runLength: 1, length: 1, offset: 0 },
+      { tileId: 1, runLength: 1, length: 3, offset: 1 },
+      { tileId: 4, runLength: 1, length: 2, offset: 4 },
+    ]);
+    expect([...slice(header.tileDataOffset, header.tileDataLength)]).toEqual([1, 2, 2, 2, 4, 4]);
+  });
+
+  it('moves the entries into leaf directories when the root directory would not fit the initial fetch', async () => {
+    const tiles: PMTilesTile[] = [];
+    for (let x = 0; x < 128; x++) {
+      for (let y = 0; y < 128; y++) tiles.push(tile(7, x, y, x));
+    }
+    const { header, slice } = await readArchive(writePMTiles(tiles, OPTIONS));
+
+    expect(header.rootOffset + header.rootLength).toBeLessThanOrEqual(16384);
+    expect(header.leavesLength).toBeGreaterThan(0);
+
+    const rootEntries = readDirectory(slice(header.rootOffset, header.rootLength));
+    expect(rootEntries.every(entry => entry.runLength === 0)).toBe(true);
+    const leafEntries = rootEntries.flatMap(entry => readDirectory(slice(header.leavesOffset + entry.offset, entry.length)));
+    expect(leafEntries).toHaveLength(tiles.length);
+    expect(leafEntries[0].tileId).toBe(zxyToTileId(7, 0, 0));
+    expect(leafEntries.every((entry, i) => i === 0 || entry.tileId > leafEntries[i - 1].tileId)).toBe(true);
+    expect(header.tileDataLength).toBe(tiles.length);
+  });
+
+  it('refuses to write an archive without tiles', () => {
+    expect(() => writePMTiles([], OPTIONS)).toThrow('without tiles');
+  });
+});
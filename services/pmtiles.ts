@@ -0,0 +1,206 @@
+/**
+ * A minimal writer for PMTiles v3 archives (https://github.com/protomaps/PMTiles/blob/main/spec/v3/spec.md).
+ * Directories and metadata are stored uncompressed, which every PMTiles reader supports.
+ *
+ * PMTiles addresses tiles with XYZ coordinates (row 0 at the top, like the rest of this app), so unlike MBTiles
+ * no TMS row flip is applied.
+ */
+
+export interface PMTilesTile {
+  zoom: number;
+  x: number;
+  y: number;
+  data: Uint8Array;
+}
+
+export type PMTilesTileType = 'png' | 'jpeg' | 'webp';
+
+export interface PMTilesOptions {
+  tileType: PMTilesTileType;
+  // Arbitrary JSON metadata, e.g. name, description and attribution.
+  metadata: Record<string, unknown>;
+  bounds: { minLng: number; minLat: number; maxLng: number; maxLat: number };
+  center: { lng: number; lat: number; zoom: number };
+}
+
+interface DirectoryEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number;
+}
+
+const HEADER_LENGTH = 127;
+// Readers fetch the first 16 KiB up front, so the header and root directory must fit in it.
+const ROOT_DIRECTORY_BUDGET = 16384 - HEADER_LENGTH;
+
+const COMPRESSION_NONE = 1;
+const TILE_TYPE_CODES: Record<PMTilesTileType, number> = { png: 2, jpeg: 3, webp: 4 };
+
+const rotate = (n: number, xy: [number, number], rx: number, ry: number) => {
+  if (ry === 0) {
+    if (rx === 1) {
+      xy[0] = n - 1 - xy[0];
+      xy[1] = n - 1 - xy[1];
+    }
+    const t = xy[0];
+    xy[0] = xy[1];
+    xy[1] = t;
+  }
+};
+
+/**
+ * Converts XYZ tile coordinates to a PMTiles tile ID: the tile's position on a Hilbert curve over its zoom level,
+ * offset by the number of tiles in all lower zoom levels.
+ * @param zoom - Zoom level.
+ * @param x - The tile's x coordinate.
+ * @param y - The tile's y coordinate.
+ * @returns The tile ID.
+ */
+export const zxyToTileId = (zoom: number, x: number, y: number): number => {
+  const n = Math.pow(2, zoom);
+  if (x < 0 || y < 0 || x >= n || y >= n) {
+    throw new Error(`Tile ${zoom}/${x}/${y} is outside the bounds of its zoom level.`);
+  }
+  const tilesInLowerZooms = (Math.pow(4, zoom) - 1) / 3;
+
+  const xy: [number, number] = [x, y];
+  let d = 0;
+  for (let s = n / 2; s >= 1; s /= 2) {
+    const rx = (xy[0] & s) > 0 ? 1 : 0;
+    const ry = (xy[1] & s) > 0 ? 1 : 0;
+    d += s * s * ((3 * rx) ^ ry);
+    rotate(s, xy, rx, ry);
+  }
+  return tilesInLowerZooms + d;
+};
+
+// Tile IDs can exceed 32 bits, so varints are built with arithmetic rather than bitwise operators.
+const writeVarint = (bytes: number[], value: number) => {
+  let remaining = value;
+  while (remaining >= 0x80) {
+    bytes.push((remaining % 0x80) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+};
+
+const serializeDirectory = (entries: DirectoryEntry[]): Uint8Array => {
+  const bytes: number[] = [];
+  writeVarint(bytes, entries.length);
+
+  let lastId = 0;
+  for (const entry of entries) {
+    writeVarint(bytes, entry.tileId - lastId);
+    lastId = entry.tileId;
+  }
+  for (const entry of entries) writeVarint(bytes, entry.runLength);
+  for (const entry of entries) writeVarint(bytes, entry.length);
+  entries.forEach((entry, i) => {
+    // An offset of 0 means "directly after the previous entry"; anything else is stored as offset + 1.
+    const isContiguous = i > 0 && entry.offset === entries[i - 1].offset + entries[i - 1].length;
+    writeVarint(bytes, isContiguous ? 0 : entry.offset + 1);
+  });
+
+  return new Uint8Array(bytes);
+};
+
+/**
+ * Splits the tile entries into a root directory and, if it would not fit the initial fetch, leaf directories.
+ */
+const buildDirectories = (entries: DirectoryEntry[]): { root: Uint8Array; leaves: Uint8Array } => {
+  const root = serializeDirectory(entries);
+  if (root.length <= ROOT_DIRECTORY_BUDGET) {
+    return { root, leaves: new Uint8Array(0) };
+  }
+
+  for (let leafSize = 4096; ; leafSize *= 2) {
+    const rootEntries: DirectoryEntry[] = [];
+    const leafChunks: Uint8Array[] = [];
+    let leavesLength = 0;
+
+    for (let i = 0; i < entries.length; i += leafSize) {
+      const leaf = serializeDirectory(entries.slice(i, i + leafSize));
+      // A run length of 0 marks a root entry that points at a leaf directory instead of a tile.
+      rootEntries.push({ tileId: entries[i].tileId, offset: leavesLength, length: leaf.length, runLength: 0 });
+      leafChunks.push(leaf);
+      leavesLength += leaf.length;
+    }
+
+    const leafRoot = serializeDirectory(rootEntries);
+    if (leafRoot.length <= ROOT_DIRECTORY_BUDGET) {
+      const leaves = new Uint8Array(leavesLength);
+      let position = 0;
+      for (const chunk of leafChunks) {
+        leaves.set(chunk, position);
+        position += chunk.length;
+      }
+      return { root: leafRoot, leaves };
+    }
+  }
+};
+
+const toE7 = (degrees: number) => Math.round(degrees * 1e7);
+
+/**
+ * Packs tiles into a PMTiles v3 archive.
+ * @param tiles - The tiles to pack. Every tile must be encoded as `options.tileType`.
+ * @param options - The tile format, metadata, bounds and centre of the archive.
+ * @returns The archive as a blob.
+ */
+export const writePMTiles = (tiles: PMTilesTile[], options: PMTilesOptions): Blob => {
+  if (tiles.length === 0) {
+    throw new Error('Cannot write a PMTiles archive without tiles.');
+  }
+
+  const sorted = tiles
+    .map(tile => ({ ...tile, tileId: zxyToTileId(tile.zoom, tile.x, tile.y) }))
+    .sort((a, b) => a.tileId - b.tileId);
+
+  const entries: DirectoryEntry[] = [];
+  let tileDataLength = 0;
+  for (const tile of sorted) {
+    entries.push({ tileId: tile.tileId, offset: tileDataLength, length: tile.data.length, runLength: 1 });
+    tileDataLength += tile.data.length;
+  }
+
+  const { root, leaves } = buildDirectories(entries);
+  const metadata = new TextEncoder().encode(JSON.stringify(options.metadata));
+
+  const rootOffset = HEADER_LENGTH;
+  const metadataOffset = rootOffset + root.length;
+  const leavesOffset = metadataOffset + metadata.length;
+  const tileDataOffset = leavesOffset + leaves.length;
+
+  const header = new ArrayBuffer(HEADER_LENGTH);
+  const view = new DataView(header);
+  new Uint8Array(header).set(new TextEncoder().encode('PMTiles'), 0);
+  view.setUint8(7, 3);
+  const setU64 = (position: number, value: number) => view.setBigUint64(position, BigInt(value), true);
+  setU64(8, rootOffset);
+  setU64(16, root.length);
+  setU64(24, metadataOffset);
+  setU64(32, metadata.length);
+  setU64(40, leavesOffset);
+  setU64(48, leaves.length);
+  setU64(56, tileDataOffset);
+  setU64(64, tileDataLength);
+  setU64(72, entries.length); // addressed tiles
+  setU64(80, entries.length); // tile entries
+  setU64(88, entries.length); // tile contents
+  view.setUint8(96, 1); // clustered: tile data is written in tile ID order
+  view.setUint8(97, COMPRESSION_NONE);
+  view.setUint8(98, COMPRESSION_NONE);
+  view.setUint8(99, TILE_TYPE_CODES[options.tileType]);
+  view.setUint8(100, Math.min(...sorted.map(t => t.zoom)));
+  view.setUint8(101, Math.max(...sorted.map(t => t.zoom)));
+  view.setInt32(102, toE7(options.bounds.minLng), true);
+  view.setInt32(106, toE7(options.bounds.minLat), true);
+  view.setInt32(110, toE7(options.bounds.maxLng), true);
+  view.setInt32(114, toE7(options.bounds.maxLat), true);
+  view.setUint8(118, options.center.zoom);
+  view.setInt32(119, toE7(options.center.lng), true);
+  view.setInt32(123, toE7(options.center.lat), true);
+
+  return new Blob([header, root, metadata, leaves, ...sorted.map(t => t.data)], { type: 'application/vnd.pmtiles' });
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { getTilesInOutline, getTilesInRegion, rectangleOutline } from './regionSelection';
+import { REGION_SCAN_LIMIT } from '../constants';
+
+const keysOf = (tiles: { zoom: number; x: number; y: number }[]) => tiles.map(({ zoom, x, y }) => `${zoom}-${x}-${y}`);
+
+describe('getTilesInOutline', () => {
+  it('lists the tiles a rectangle touches, by row and then column', () => {
+    // At zoom 2 each tile is 90° wide, so this part of northern Europe lies in a single tile.
+    const outline = rectangleOutline({ lat: 60, lng: 5 }, { lat: 50, lng: 20 });
+    expect(keysOf(getTilesInOutline(outline, 2)!)).toEqual(['2-2-1']);
+  });
+
+  it('stops at the poles', () => {
+    const outline = rectangleOutline({ lat: 89.9, lng: -10 }, { lat: 70, lng: 10 });
+    const tiles = getTilesInOutline(outline, 2)!;
+    expect(tiles.every(tile => tile.y >= 0 && tile.y <= 3)).toBe(true);
+    expect(keysOf(tiles)).toEqual(['2-1-0', '2-2-0']);
+  });
+
+  it('wraps columns across the antimeridian', () => {
+    // From 170°E to 190°E, i.e. 170°W.
+    const outline = rectangleOutline({ lat: 10, lng: 170 }, { lat: -10, lng: 190 });
+    const tiles = getTilesInOutline(outline, 2)!;
+    expect(tiles.every(tile => tile.x >= 0 && tile.x <= 3)).toBe(true);
+    expect(keysOf(tiles)).toEqual(['2-3-1', '2-0-1', '2-3-2', '2-0-2']);
+  });
+
+  it('lists each tile once when the outline goes round the world', () => {
+    const outline = rectangleOutline({ lat: 10, lng: -200 }, { lat: -10, lng: 200 });
+    const keys = keysOf(getTilesInOutline(outline, 1)!);
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(keys.sort()).toEqual(['1-0-0', '1-0-1', '1-1-0', '1-1-1']);
+  });
+
+  it(`gives up on outlines spanning more than ${REGION_SCAN_LIMIT} tiles`, () => {
+    const outline = rectangleOutline({ lat: 60, lng: -60 }, { lat: -60, lng: 60 });
+    expect(getTilesInOutline(outline, 14)).toBeNull();
+    expect(getTilesInRegion({ shape: 'rectangle', points: outline, minZoom: 2, maxZoom: 14 })).toBeNull();
+  });
+});
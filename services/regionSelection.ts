@@ -0,0 +1,110 @@
+import type { Coordinates, SelectionRegion } from '../types';
+import { latLngToPreciseTileXY, wrapTileX, toTileKey } from './googleMaps';
+import { REGION_SCAN_LIMIT } from '../constants';
+
+export interface TileCoordinates {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+type Point = { x: number; y: number };
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+const segmentsIntersect = (a1: Point, a2: Point, b1: Point, b2: Point): boolean => {
+  const d1 = cross(b1, b2, a1);
+  const d2 = cross(b1, b2, a2);
+  const d3 = cross(a1, a2, b1);
+  const d4 = cross(a1, a2, b2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+};
+
+const isInsidePolygon = (point: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Checks whether a polygon covers any part of the tile with its top-left corner at (x, y), in tile coordinates.
+ */
+const polygonTouchesTile = (polygon: Point[], x: number, y: number): boolean => {
+  const corners = [{ x, y }, { x: x + 1, y }, { x: x + 1, y: y + 1 }, { x, y: y + 1 }];
+  // The polygon covers the tile's centre, has a corner inside the tile, or crosses one of its edges.
+  if (isInsidePolygon({ x: x + 0.5, y: y + 0.5 }, polygon)) return true;
+  if (polygon.some(p => p.x > x && p.x < x + 1 && p.y > y && p.y < y + 1)) return true;
+  return polygon.some((a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    return corners.some((c, j) => segmentsIntersect(a, b, c, corners[(j + 1) % corners.length]));
+  });
+};
+
+/**
+ * Lists the tiles an outline touches at a zoom level.
+ * @param points - The outline's corners in order, as latitude and longitude.
+ * @param zoom - Zoom level.
+ * @returns The tiles, by row and then column, each listed once, or null if the outline's bounding box spans more
+ *   than `REGION_SCAN_LIMIT` tiles.
+ */
+export const getTilesInOutline = (points: Coordinates[], zoom: number): TileCoordinates[] | null => {
+  if (points.length < 3) return [];
+  const polygon = points.map(p => latLngToPreciseTileXY(p.lat, p.lng, zoom));
+  const minX = Math.floor(Math.min(...polygon.map(p => p.x)));
+  const maxX = Math.floor(Math.max(...polygon.map(p => p.x)));
+  // Rows stop at the poles; columns past the antimeridian wrap around to the other side of the world.
+  const lastRow = Math.pow(2, zoom) - 1;
+  const minY = Math.max(0, Math.floor(Math.min(...polygon.map(p => p.y))));
+  const maxY = Math.min(lastRow, Math.floor(Math.max(...polygon.map(p => p.y))));
+  if ((maxX - minX + 1) * (maxY - minY + 1) > REGION_SCAN_LIMIT) return null;
+
+  const tiles: TileCoordinates[] = [];
+  const seenKeys = new Set<string>();
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (!polygonTouchesTile(polygon, x, y)) continue;
+      const wrappedX = wrapTileX(x, zoom);
+      const key = toTileKey(zoom, wrappedX, y);
+      if (seenKeys.has(key)) continue;
+      seenKeys.add(key);
+      tiles.push({ zoom, x: wrappedX, y });
+    }
+  }
+  return tiles;
+};
+
+/**
+ * Lists the tiles a region touches at each of its zoom levels.
+ * @param region - The region.
+ * @returns The tiles from the lowest zoom level up, or null if a level has too many to list.
+ */
+export const getTilesInRegion = (region: SelectionRegion): TileCoordinates[] | null => {
+  const tiles: TileCoordinates[] = [];
+  for (let zoom = region.minZoom; zoom <= region.maxZoom; zoom++) {
+    const levelTiles = getTilesInOutline(region.points, zoom);
+    if (!levelTiles) return null;
+    // A level can list too many tiles to spread into one call.
+    for (const tile of levelTiles) tiles.push(tile);
+  }
+  return tiles;
+};
+
+/**
+ * Builds the outline of a rectangle from two opposite corners.
+ * @param a - One corner.
+ * @param b - The opposite corner.
+ * @returns The four corners, clockwise from the north-west.
+ */
+export const rectangleOutline = (a: Coordinates, b: Coordinates): Coordinates[] => {
+  const north = Math.max(a.lat, b.lat);
+  const south = Math.min(a.lat, b.lat);
+  const west = Math.min(a.lng, b.lng);
+  const east = Math.max(a.lng, b.lng);
+  return [{ lat: north, lng: west }, { lat: north, lng: east }, { lat: south, lng: east }, { lat: south, lng: west }];
+};
@@ -0,0 +1,190 @@
+import type { MapTile } from '../types';
+import { loadImage, createCanvas, stitchTileImages } from './imageUtils';
+import { toTileKey, wrapTileX } from './googleMaps';
+import { TILE_SIZE, SEAM_BLEND_WIDTH, HISTOGRAM_MATCH_STRENGTH } from '../constants';
+
+/** Per-channel (red, green, blue) counts of every pixel value. */
+type Histograms = [number[], number[], number[]];
+
+type Side = 'left' | 'right' | 'top' | 'bottom';
+
+// Where each side's neighbour sits, and which of its rows or columns touches the tile.
+const SIDES: { side: Side; dx: number; dy: number; edge: { x: number; y: number; width: number; height: number } }[] = [
+  { side: 'left', dx: -1, dy: 0, edge: { x: TILE_SIZE - 1, y: 0, width: 1, height: TILE_SIZE } },
+  { side: 'right', dx: 1, dy: 0, edge: { x: 0, y: 0, width: 1, height: TILE_SIZE } },
+  { side: 'top', dx: 0, dy: -1, edge: { x: 0, y: TILE_SIZE - 1, width: TILE_SIZE, height: 1 } },
+  { side: 'bottom', dx: 0, dy: 1, edge: { x: 0, y: 0, width: TILE_SIZE, height: 1 } },
+];
+
+const emptyHistograms = (): Histograms => [new Array(256).fill(0), new Array(256).fill(0), new Array(256).fill(0)];
+
+/**
+ * Counts the pixel values of an image, ignoring fully transparent pixels.
+ * @param data - RGBA pixel data.
+ * @param histograms - Histograms to add the counts to, to combine several images.
+ * @returns The histograms.
+ */
+export const computeHistograms = (data: Uint8ClampedArray, histograms: Histograms = emptyHistograms()): Histograms => {
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    histograms[0][data[i]]++;
+    histograms[1][data[i + 1]]++;
+    histograms[2][data[i + 2]]++;
+  }
+  return histograms;
+};
+
+const cumulative = (histogram: number[]): number[] => {
+  const total = histogram.reduce((sum, count) => sum + count, 0) || 1;
+  let running = 0;
+  return histogram.map(count => (running += count) / total);
+};
+
+/**
+ * Builds a lookup table that moves one channel's value distribution towards a reference distribution.
+ * @param source - The histogram of the channel to adjust.
+ * @param reference - The histogram to match.
+ * @param strength - How far to move, from 0 (unchanged) to 1 (an exact histogram match).
+ * @returns The new value for every old value.
+ */
+export const buildMatchingLut = (source: number[], reference: number[], strength: number): Uint8ClampedArray => {
+  const sourceCdf = cumulative(source);
+  const referenceCdf = cumulative(reference);
+  const lut = new Uint8ClampedArray(256);
+  let match = 0;
+  for (let value = 0; value < 256; value++) {
+    // Both CDFs only grow, so the matching reference value never moves backwards.
+    while (match < 255 && referenceCdf[match] < sourceCdf[value]) match++;
+    lut[value] = Math.round(value + (match - value) * strength);
+  }
+  return lut;
+};
+
+/**
+ * Blends a band along one side of a tile towards the pixels of the neighbour across that side, fading out
+ * with distance from the edge.
+ * @param data - RGBA pixel data of the image holding the tile, changed in place.
+ * @param imageWidth - The image's width in pixels.
+ * @param origin - The tile's top-left pixel in the image.
+ * @param side - The side shared with the neighbour.
+ * @param edge - RGBA pixels of the neighbour's row or column touching the tile, `TILE_SIZE` long.
+ * @param band - The width of the blended band in pixels.
+ */
+export const featherEdge = (
+  data: Uint8ClampedArray,
+  imageWidth: number,
+  origin: { x: number; y: number },
+  side: Side,
+  edge: Uint8ClampedArray,
+  band: number,
+): void => {
+  for (let distance = 0; distance < band; distance++) {
+    // Half and half at the edge itself, so the seam falls between the two tiles' colours.
+    const weight = 0.5 * (1 - distance / band);
+    for (let along = 0; along < TILE_SIZE; along++) {
+      const x = side === 'left' ? distance : side === 'right' ? TILE_SIZE - 1 - distance : along;
+      const y = side === 'top' ? distance : side === 'bottom' ? TILE_SIZE - 1 - distance : along;
+      const i = ((origin.y + y) * imageWidth + origin.x + x) * 4;
+      const j = along * 4;
+      if (edge[j + 3] === 0) continue;
+      for (let channel = 0; channel < 3; channel++) {
+        data[i + channel] += (edge[j + channel] - data[i + channel]) * weight;
+      }
+    }
+  }
+};
+
+const readPixels = async (url: string): Promise<ImageData> => {
+  const img = await loadImage(url);
+  const { ctx } = createCanvas(TILE_SIZE, TILE_SIZE);
+  ctx.drawImage(img, 0, 0, TILE_SIZE, TILE_SIZE);
+  return ctx.getImageData(0, 0, TILE_SIZE, TILE_SIZE);
+};
+
+/**
+ * Evens out newly styled tiles against the styled map around them. Their colours are moved towards those of
+ * their styled neighbours (or of a reference tile, if none are styled yet), and a thin band along every edge
+ * shared with a styled neighbour is blended into it. A block is adjusted as a whole, so tiles generated
+ * together stay seamless among themselves.
+ * @param block - The newly styled tiles, as rows of columns.
+ * @param styledBlock - Their styled images, keyed by tile key.
+ * @param styledTiles - Styled images that already exist, keyed by tile key. Used for the block's neighbours.
+ * @param referenceUrl - A styled tile to match colours to when the block has no styled neighbours.
+ * @returns A promise that resolves to the blended tile data URLs, keyed by tile key.
+ */
+export const blendStyledBlock = async (
+  block: MapTile[][],
+  styledBlock: Record<string, string>,
+  styledTiles: Record<string, string>,
+  referenceUrl: string | null,
+): Promise<Record<string, string>> => {
+  const rows = block.length;
+  const cols = block[0].length;
+  const blockKeys = new Set(block.flat().map(tile => tile.key));
+  const stitched = await stitchTileImages(block.map(row => row.map(tile => styledBlock[tile.key])));
+  const ctx = stitched.getContext('2d');
+  if (!ctx) throw new Error('Could not get 2D context from canvas.');
+  const image = ctx.getImageData(0, 0, stitched.width, stitched.height);
+
+  // Every styled neighbour outside the block, with the side of the block tile it touches.
+  const neighbours: { origin: { x: number; y: number }; side: Side; edge: { x: number; y: number; width: number; height: number }; url: string }[] = [];
+  block.forEach((row, rowIndex) => row.forEach((tile, colIndex) => {
+    for (const { side, dx, dy, edge } of SIDES) {
+      // Past the poles there is no neighbour; across the antimeridian it wraps around.
+      const y = tile.y + dy;
+      if (y < 0 || y >= 2 ** tile.zoom) continue;
+      const key = toTileKey(tile.zoom, wrapTileX(tile.x + dx, tile.zoom), y);
+      if (blockKeys.has(key) || !styledTiles[key]) continue;
+      neighbours.push({ origin: { x: colIndex * TILE_SIZE, y: rowIndex * TILE_SIZE }, side, edge, url: styledTiles[key] });
+    }
+  }));
+
+  const neighbourPixels = new Map<string, ImageData>();
+  await Promise.all([...new Set(neighbours.map(n => n.url))].map(async url => {
+    neighbourPixels.set(url, await readPixels(url));
+  }));
+
+  let referenceHistograms: Histograms | null = null;
+  if (neighbourPixels.size > 0) {
+    const neighbourHistograms = emptyHistograms();
+    neighbourPixels.forEach(pixels => computeHistograms(pixels.data, neighbourHistograms));
+    referenceHistograms = neighbourHistograms;
+  } else if (referenceUrl && !Object.values(styledBlock).includes(referenceUrl)) {
+    referenceHistograms = computeHistograms((await readPixels(referenceUrl)).data);
+  }
+
+  if (referenceHistograms) {
+    const targetHistograms = referenceHistograms;
+    const sourceHistograms = computeHistograms(image.data);
+    const luts = sourceHistograms.map((histogram, channel) => buildMatchingLut(histogram, targetHistograms[channel], HISTOGRAM_MATCH_STRENGTH));
+    const { data } = image;
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = luts[0][data[i]];
+      data[i + 1] = luts[1][data[i + 1]];
+      data[i + 2] = luts[2][data[i + 2]];
+    }
+  }
+
+  for (const { origin, side, edge, url } of neighbours) {
+    const pixels = neighbourPixels.get(url)!;
+    const edgePixels = new Uint8ClampedArray(TILE_SIZE * 4);
+    for (let along = 0; along < TILE_SIZE; along++) {
+      const x = edge.x + (edge.width > 1 ? along : 0);
+      const y = edge.y + (edge.height > 1 ? along : 0);
+      edgePixels.set(pixels.data.subarray((y * TILE_SIZE + x) * 4, (y * TILE_SIZE + x) * 4 + 4), along * 4);
+    }
+    featherEdge(image.data, stitched.width, origin, side, edgePixels, SEAM_BLEND_WIDTH);
+  }
+
+  ctx.putImageData(image, 0, 0);
+  const { canvas: tileCanvas, ctx: tileCtx } = createCanvas(TILE_SIZE, TILE_SIZE);
+  const result: Record<string, string> = {};
+  for (let rowIndex = 0; rowIndex < rows; rowIndex++) {
+    for (let colIndex = 0; colIndex < cols; colIndex++) {
+      tileCtx.clearRect(0, 0, TILE_SIZE, TILE_SIZE);
+      tileCtx.drawImage(stitched, colIndex * TILE_SIZE, rowIndex * TILE_SIZE, TILE_SIZE, TILE_SIZE, 0, 0, TILE_SIZE, TILE_SIZE);
+      result[block[rowIndex][colIndex].key] = tileCanvas.toDataURL();
+    }
+  }
+  return result;
+};
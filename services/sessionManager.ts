@@ -0,0 +1,89 @@
+import type { MapSession } from '../types';
+import { SESSION_REFRESH_MARGIN_MS, SESSION_RECOVERY_INTERVAL_MS } from '../constants';
+
+/**
+ * Keeps a tile source session valid: creates it on demand, renews it before it expires, and renews it early
+ * when requests start failing.
+ */
+export interface SessionManager {
+  // Resolves to a session that is not about to expire, creating or renewing one if needed.
+  getSession: () => Promise<MapSession>;
+  // Replaces the session with a new one. Concurrent calls share the same request.
+  refresh: () => Promise<MapSession>;
+  /**
+   * Renews the session after a request failed, in case it failed because the session expired.
+   * Returns null without doing anything if the session was renewed recently, so persistent failures
+   * (e.g. a bad API key) don't turn into a stream of session requests.
+   */
+  recover: () => Promise<MapSession> | null;
+  // Stops the renewal timer. The manager must not be used afterwards.
+  dispose: () => void;
+}
+
+// setTimeout fires immediately for delays beyond a signed 32-bit integer.
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Creates a session manager.
+ * @param createSession - Creates a new session, e.g. a tile source's `createSession` bound to the session options.
+ * @param onSessionChange - Called whenever a new session replaces the current one.
+ * @returns The session manager.
+ */
+export const createSessionManager = (
+  createSession: () => Promise<MapSession>,
+  onSessionChange?: (session: MapSession) => void,
+): SessionManager => {
+  let current: MapSession | null = null;
+  let pending: Promise<MapSession> | null = null;
+  let lastRefreshStartedAt = 0;
+  let renewalTimer: ReturnType<typeof setTimeout> | null = null;
+  let isDisposed = false;
+
+  const scheduleRenewal = (session: MapSession) => {
+    if (renewalTimer) clearTimeout(renewalTimer);
+    const delay = Math.min(Math.max(0, session.expiresAt - SESSION_REFRESH_MARGIN_MS - Date.now()), MAX_TIMER_DELAY_MS);
+    renewalTimer = setTimeout(() => {
+      console.log('Map session is about to expire; renewing it.');
+      refresh().catch(err => console.error('Failed to renew map session:', err));
+    }, delay);
+  };
+
+  const refresh = (): Promise<MapSession> => {
+    if (pending) return pending;
+    lastRefreshStartedAt = Date.now();
+
+    pending = createSession()
+      .then(session => {
+        if (!isDisposed) {
+          current = session;
+          scheduleRenewal(session);
+          onSessionChange?.(session);
+        }
+        return session;
+      })
+      .finally(() => {
+        pending = null;
+      });
+    return pending;
+  };
+
+  return {
+    getSession: () => {
+      if (current && current.expiresAt - SESSION_REFRESH_MARGIN_MS > Date.now()) {
+        return Promise.resolve(current);
+      }
+      return refresh();
+    },
+    refresh,
+    recover: () => {
+      if (pending) return pending;
+      if (Date.now() - lastRefreshStartedAt < SESSION_RECOVERY_INTERVAL_MS) return null;
+      console.log('Tile requests are failing; renewing the map session in case it expired.');
+      return refresh();
+    },
+    dispose: () => {
+      isDisposed = true;
+      if (renewalTimer) clearTimeout(renewalTimer);
+    },
+  };
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { createCanvas as createNodeCanvas, Image } from '@napi-rs/canvas';
+import { createLocalStyleEngine, paletteForStyle } from './styleEngines';
+import type { StyleRequest } from './styleEngines';
+import type { Base64Image } from './imageUtils';
+
+/**
+ * Paints a test image with the given fill, e.g. a solid colour or a pattern.
+ */
+const paintImage = (width: number, height: number, paint: (ctx: CanvasRenderingContext2D) => void): Base64Image => {
+  const canvas = createNodeCanvas(width, height);
+  paint(canvas.getContext('2d') as unknown as CanvasRenderingContext2D);
+  return { data: canvas.toDataURL().split(',')[1], mimeType: 'image/png' };
+};
+
+const solidImage = (color: string, size = 8) => paintImage(size, size, ctx => {
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, size, size);
+});
+
+// A map-like tile: a light background crossed by a dark road.
+const roadImage = () => paintImage(32, 32, ctx => {
+  ctx.fillStyle = '#e0e0e0';
+  ctx.fillRect(0, 0, 32, 32);
+  ctx.fillStyle = '#303030';
+  ctx.fillRect(0, 14, 32, 4);
+});
+
+const readPixels = async ({ data, mimeType }: Base64Image) => {
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = reject;
+    image.src = `data:${mimeType};base64,${data}`;
+  });
+  const canvas = createNodeCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  return { width: image.width, height: image.height, data: Array.from(ctx.getImageData(0, 0, image.width, image.height).data) };
+};
+
+const request = (image: Base64Image, style: string, extra: Partial<StyleRequest> = {}): StyleRequest =>
+  ({ image, style, prompt: `Restyle the map as ${style}.`, ...extra });
+
+const luminance = ([r, g, b]: number[]) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+describe('paletteForStyle', () => {
+  it('uses the keyword palette a style mentions', () => {
+    const { palette, edges } = paletteForStyle('Neon CYBERPUNK streets');
+    expect(palette[0]).toEqual([12, 6, 30]);
+    expect(edges).toBe(true);
+  });
+
+  it('gives other styles a stable palette of their own', () => {
+    expect(paletteForStyle('art deco poster')).toEqual(paletteForStyle('Art Deco Poster'));
+    expect(paletteForStyle('art deco poster')).not.toEqual(paletteForStyle('stained glass'));
+  });
+
+  it('runs from dark to bright', () => {
+    for (const style of ['art deco poster', 'stained glass', 'lego bricks']) {
+      const { palette } = paletteForStyle(style);
+      expect(luminance(palette[0])).toBeLessThan(luminance(palette[palette.length - 1]));
+    }
+  });
+});
+
+describe('createLocalStyleEngine', () => {
+  const engine = createLocalStyleEngine();
+
+  it('maps the darkest and brightest tones onto the ends of the palette', async () => {
+    const dark = await readPixels(await engine.stylize(request(solidImage('#000'), 'sepia')));
+    const bright = await readPixels(await engine.stylize(request(solidImage('#fff'), 'sepia')));
+    expect(dark.data.slice(0, 3)).toEqual([60, 40, 20]);
+    expect(bright.data.slice(0, 3)).toEqual([245, 230, 200]);
+  });
+
+  it('keeps the image size and gives the same result every time', async () => {
+    const first = await engine.stylize(request(roadImage(), 'blueprint'));
+    const second = await engine.stylize(request(roadImage(), 'blueprint'));
+    expect(first.mimeType).toBe('image/png');
+    expect(first.data).toBe(second.data);
+    const { width, height } = await readPixels(first);
+    expect([width, height]).toEqual([32, 32]);
+  });
+
+  it('looks different for different styles', async () => {
+    const blueprint = await engine.stylize(request(roadImage(), 'blueprint'));
+    const watercolor = await engine.stylize(request(roadImage(), 'watercolor'));
+    expect(blueprint.data).not.toBe(watercolor.data);
+  });
+
+  it('takes its palette from the first reference image', async () => {
+    const styled = await readPixels(await engine.stylize(request(solidImage('#fff'), 'sepia', {
+      referenceImages: [solidImage('#2050c0', 16)],
+    })));
+    expect(styled.data.slice(0, 3)).toEqual([32, 80, 192]);
+  });
+
+  it('rejects a cancelled request', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(engine.stylize(request(roadImage(), 'sepia', { signal: controller.signal }))).rejects.toThrow();
+  });
+});
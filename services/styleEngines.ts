@@ -0,0 +1,283 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { Part } from "@google/genai";
+import type { Base64Image } from './imageUtils';
+import { loadImage, createCanvas, canvasToBase64 } from './imageUtils';
+import type { StylePricing } from '../types';
+import { STYLE_MODEL, GEMINI_IMAGE_MODELS, GEMINI_IMAGE_PRICING } from '../constants';
+
+export interface StyleRequest {
+  // The map image to restyle.
+  image: Base64Image;
+  // The user's description of the target style, e.g. "cyberpunk".
+  style: string;
+  // The full instruction for instruction-following models, which describes `image` and `conditioningImages`.
+  prompt: string;
+  // Extra images the instruction refers to, sent after `image` in order.
+  conditioningImages?: Base64Image[];
+  // Images whose look the result should match, sent after `conditioningImages`.
+  referenceImages?: Base64Image[];
+  // A model from the engine's `availableModels` to use instead of its default.
+  model?: string;
+  // Sampling parameters, for engines with `supportsSampling`.
+  temperature?: number;
+  seed?: number;
+  // Cancels the request.
+  signal?: AbortSignal;
+  // Called with the tokens the request used, for engines that report them. Failed requests may report them too.
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * A backend that turns a map image and a style description into a restyled image.
+ */
+export interface StyleEngine {
+  id: string;
+  name: string;
+  // Identifies the model and version producing the output. Part of the styled tile cache key.
+  model: string;
+  // Models that can be picked per request. Empty if the engine only has its own.
+  availableModels: string[];
+  // Whether requests can set a temperature and seed.
+  supportsSampling: boolean;
+  // Prices for cost estimates. Null for engines that cost nothing to run or whose prices aren't known.
+  pricing: StylePricing | null;
+  stylize: (request: StyleRequest) => Promise<Base64Image>;
+}
+
+/**
+ * Creates a style engine backed by a Gemini image model.
+ * @param apiKey - Your Gemini API key.
+ * @param model - The image-capable Gemini model to use.
+ * @returns The style engine.
+ */
+export const createGeminiStyleEngine = (apiKey: string, model: string = STYLE_MODEL): StyleEngine => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    name: `Gemini (${model})`,
+    model,
+    availableModels: [...new Set([model, ...GEMINI_IMAGE_MODELS])],
+    supportsSampling: true,
+    pricing: GEMINI_IMAGE_PRICING,
+    stylize: async ({ image, prompt, conditioningImages = [], referenceImages = [], model: requestModel, temperature, seed, signal, onUsage }) => {
+      const parts: Part[] = [
+        { inlineData: image },
+        ...conditioningImages.map(inlineData => ({ inlineData })),
+        ...referenceImages.map(inlineData => ({ inlineData })),
+        { text: prompt },
+      ];
+
+      const response = await ai.models.generateContent({
+        model: requestModel || model,
+        contents: { parts },
+        config: {
+          responseModalities: [Modality.IMAGE, Modality.TEXT],
+          temperature,
+          seed,
+          abortSignal: signal,
+        },
+      });
+
+      // Tokens are billed whether or not an image came back.
+      if (response.usageMetadata) {
+        onUsage?.({
+          inputTokens: response.usageMetadata.promptTokenCount ?? 0,
+          outputTokens: response.usageMetadata.candidatesTokenCount ?? 0,
+        });
+      }
+
+      const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+
+      if (imagePart?.inlineData?.data) {
+        return {
+          data: imagePart.inlineData.data,
+          mimeType: imagePart.inlineData.mimeType ?? 'image/png',
+        };
+      }
+
+      console.warn(`No image part returned by ${requestModel || model}.`, response);
+      const textPart = response.candidates?.[0]?.content?.parts?.find(part => part.text);
+      const reason = response.candidates?.[0]?.finishReason;
+      const safety = response.candidates?.[0]?.safetyRatings;
+      let errorDetails = `Style generation failed: No image was returned from the API.`;
+      if (textPart?.text) errorDetails += `\nResponse Text: "${textPart.text}"`;
+      if (reason) errorDetails += `\nFinish Reason: ${reason}`;
+      if (safety) errorDetails += `\nSafety Ratings: ${JSON.stringify(safety)}`;
+
+      throw new Error(errorDetails);
+    },
+  };
+};
+
+type RGB = [number, number, number];
+
+// Palettes run from the darkest to the brightest tone; map luminance is mapped onto them.
+const KEYWORD_PALETTES: { keywords: string[]; palette: RGB[]; edges: boolean }[] = [
+  { keywords: ['cyberpunk', 'neon', 'synthwave', 'vaporwave'], palette: [[12, 6, 30], [70, 20, 110], [220, 40, 160], [40, 230, 240]], edges: true },
+  { keywords: ['blueprint', 'technical', 'schematic'], palette: [[10, 40, 110], [20, 70, 160], [200, 220, 255]], edges: true },
+  { keywords: ['sepia', 'vintage', 'old', 'antique', 'parchment'], palette: [[60, 40, 20], [140, 100, 60], [220, 195, 150], [245, 230, 200]], edges: false },
+  { keywords: ['watercolor', 'watercolour', 'pastel'], palette: [[120, 150, 190], [170, 200, 180], [240, 215, 200], [252, 248, 240]], edges: false },
+  { keywords: ['night', 'dark', 'noir'], palette: [[5, 5, 10], [35, 40, 55], [110, 120, 140], [230, 200, 120]], edges: false },
+  { keywords: ['sketch', 'pencil', 'ink', 'drawing'], palette: [[40, 40, 40], [160, 160, 160], [250, 250, 245]], edges: true },
+  { keywords: ['forest', 'jungle', 'fantasy'], palette: [[20, 45, 25], [60, 110, 50], [170, 190, 110], [240, 235, 200]], edges: false },
+  { keywords: ['ice', 'arctic', 'winter', 'frozen'], palette: [[30, 60, 100], [110, 160, 200], [210, 235, 250], [255, 255, 255]], edges: false },
+];
+
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const hslToRgb = (h: number, s: number, l: number): RGB => {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [f(0), f(8), f(4)];
+};
+
+/**
+ * Picks a palette for a style description: a known keyword palette if the prompt mentions one, otherwise
+ * a palette derived from a hash of the prompt so that every prompt still gets a distinct, stable look.
+ * @param style - The style description.
+ * @returns The palette, darkest tone first, and whether edges are inked in.
+ */
+export const paletteForStyle = (style: string): { palette: RGB[]; edges: boolean } => {
+  const normalized = style.toLowerCase();
+  const match = KEYWORD_PALETTES.find(entry => entry.keywords.some(keyword => normalized.includes(keyword)));
+  if (match) return match;
+
+  const hash = hashString(normalized);
+  const hue = hash % 360;
+  const accentHue = (hue + 120 + (hash >> 9) % 120) % 360;
+  return {
+    palette: [hslToRgb(hue, 0.5, 0.15), hslToRgb(hue, 0.45, 0.4), hslToRgb(accentHue, 0.55, 0.65), hslToRgb(hue, 0.3, 0.92)],
+    edges: (hash & 1) === 1,
+  };
+};
+
+/**
+ * Builds a dark-to-bright palette from a reference image by averaging the colours in equal luminance bands.
+ */
+const paletteFromImage = async (image: Base64Image, size: number = 4): Promise<RGB[]> => {
+  const img = await loadImage(`data:${image.mimeType};base64,${image.data}`);
+  // A small thumbnail has plenty of pixels for a palette and keeps this cheap.
+  const { canvas, ctx } = createCanvas(64, 64);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const pixels: { rgb: RGB; luminance: number }[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue;
+    const rgb: RGB = [data[i], data[i + 1], data[i + 2]];
+    pixels.push({ rgb, luminance: 0.2126 * rgb[0] + 0.7152 * rgb[1] + 0.0722 * rgb[2] });
+  }
+  pixels.sort((a, b) => a.luminance - b.luminance);
+
+  const palette: RGB[] = [];
+  for (let band = 0; band < size; band++) {
+    const slice = pixels.slice(Math.floor((band * pixels.length) / size), Math.floor(((band + 1) * pixels.length) / size));
+    if (slice.length === 0) continue;
+    palette.push([0, 1, 2].map(c => slice.reduce((sum, p) => sum + p.rgb[c], 0) / slice.length) as RGB);
+  }
+  return palette.length > 1 ? palette : [[0, 0, 0], [255, 255, 255]];
+};
+
+const POSTERIZE_LEVELS = 6;
+
+/**
+ * Creates an offline style engine that posterizes the tile and maps it onto a palette chosen from the style
+ * description (or taken from the first reference image, if any), optionally darkening edges. Its output is
+ * fully deterministic, so the whole generation pipeline can be run without network access.
+ * @returns The style engine.
+ */
+export const createLocalStyleEngine = (): StyleEngine => ({
+  id: 'local',
+  name: 'Local palette filter',
+  model: 'local-palette-v1',
+  availableModels: [],
+  supportsSampling: false,
+  pricing: null,
+  stylize: async ({ image, style, referenceImages = [], signal }) => {
+    signal?.throwIfAborted();
+    const img = await loadImage(`data:${image.mimeType};base64,${image.data}`);
+    const { canvas, ctx } = createCanvas(img.width, img.height);
+    ctx.drawImage(img, 0, 0);
+
+    const styleLook = paletteForStyle(style);
+    const palette = referenceImages.length > 0 ? await paletteFromImage(referenceImages[0]) : styleLook.palette;
+    const { edges } = styleLook;
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const { data, width, height } = imageData;
+
+    const luminance = new Float32Array(width * height);
+    for (let i = 0; i < luminance.length; i++) {
+      luminance[i] = (0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2]) / 255;
+    }
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        const level = Math.round(luminance[i] * (POSTERIZE_LEVELS - 1)) / (POSTERIZE_LEVELS - 1);
+        const position = level * (palette.length - 1);
+        const lower = Math.floor(position);
+        const upper = Math.min(lower + 1, palette.length - 1);
+        const t = position - lower;
+        let [r, g, b] = palette[lower].map((channel, c) => channel + (palette[upper][c] - channel) * t);
+
+        if (edges && x > 0 && y > 0 && x < width - 1 && y < height - 1) {
+          // Sobel gradient magnitude on luminance, used to ink in roads and building outlines.
+          const gx = luminance[i - width + 1] + 2 * luminance[i + 1] + luminance[i + width + 1]
+            - luminance[i - width - 1] - 2 * luminance[i - 1] - luminance[i + width - 1];
+          const gy = luminance[i + width - 1] + 2 * luminance[i + width] + luminance[i + width + 1]
+            - luminance[i - width - 1] - 2 * luminance[i - width] - luminance[i - width + 1];
+          const darken = 1 - Math.min(1, Math.hypot(gx, gy) * 1.5) * 0.7;
+          r *= darken;
+          g *= darken;
+          b *= darken;
+        }
+
+        data[i * 4] = r;
+        data[i * 4 + 1] = g;
+        data[i * 4 + 2] = b;
+      }
+    }
+
+    ctx.putImageData(imageData, 0, 0);
+    return canvasToBase64(canvas);
+  },
+});
+
+/**
+ * Creates the style engine selected by the build configuration.
+ *
+ * `STYLE_ENGINE` picks the implementation: `gemini` (default, needs `GEMINI_CUSTOM_API_KEY`; `GEMINI_MODEL`
+ * overrides the model) or `local` (offline, no key needed).
+ * @returns The configured style engine.
+ */
+export const createStyleEngineFromConfig = (): StyleEngine => {
+  const engineType = process.env.STYLE_ENGINE || 'gemini';
+
+  switch (engineType) {
+    case 'gemini':
+      if (!process.env.GEMINI_CUSTOM_API_KEY) {
+        throw new Error("API Key is missing.");
+      }
+      return createGeminiStyleEngine(process.env.GEMINI_CUSTOM_API_KEY, process.env.GEMINI_MODEL || STYLE_MODEL);
+    case 'local':
+      return createLocalStyleEngine();
+    default:
+      throw new Error(`Unknown STYLE_ENGINE "${engineType}". Expected 'gemini' or 'local'.`);
+  }
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { fillPromptTemplate } from './styleGeneration';
+
+describe('fillPromptTemplate', () => {
+  const location = { lat: 48.8583701, lng: 2.2944813, zoom: 17 };
+
+  it('fills in the style and location', () => {
+    expect(fillPromptTemplate('Paint {style} at {lat}, {lng} (zoom {zoom}).', 'watercolor', location))
+      .toBe('Paint watercolor at 48.85837, 2.29448 (zoom 17).');
+  });
+
+  it('fills in every occurrence of a placeholder', () => {
+    expect(fillPromptTemplate('{style}, {style}!', 'noir')).toBe('noir, noir!');
+  });
+
+  it('leaves the location placeholders when no location is known', () => {
+    expect(fillPromptTemplate('{style} near {lat},{lng} z{zoom}', 'sketch')).toBe('sketch near {lat},{lng} z{zoom}');
+  });
+
+  it('leaves unknown placeholders as they are', () => {
+    expect(fillPromptTemplate('{style} in {season}', 'ink', location)).toBe('ink in {season}');
+  });
+});
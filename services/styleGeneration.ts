@@ -0,0 +1,359 @@
+import type { MapTile, LocationState, GenerationSettings } from '../types';
+import type { StyleEngine, StyleRequest } from './styleEngines';
+import type { Base64Image } from './imageUtils';
+import { imageUrlToBase64, stitchTileImages, canvasToBase64, sliceMosaicImage, enlargeTileQuadrant, downsampleTileImages } from './imageUtils';
+import { preciseTileXYToLatLng, getUnwrappedTileX, normalizeLng } from './googleMaps';
+import { getParentQuadrant, getChildTileKeys } from './tilePyramid';
+import { DEFAULT_PROMPT_TEMPLATE } from '../constants';
+
+/** A rectangular block of adjacent tiles, indexed as rows of columns. */
+export type TileBlock = MapTile[][];
+
+/** Everything that describes the target look of a generation. */
+export interface StyleDefinition {
+  prompt: string;
+  referenceImages: Base64Image[];
+  // True when the map images have their labels removed, to be drawn back on top of the result.
+  labelFree?: boolean;
+  // Advanced settings. Defaults apply when omitted.
+  settings?: GenerationSettings;
+}
+
+const LABEL_FREE_INSTRUCTION = ' The map has no text labels and the result must not have any either: no letters, numbers or pseudo-text.';
+
+/**
+ * The URL of the image to restyle for a tile: the label-free version when there is one.
+ */
+const styleInputUrl = (tile: MapTile) => tile.unlabeledUrl ?? tile.url;
+
+const ordinal = (n: number) => ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth'][n - 1] ?? `#${n}`;
+
+/**
+ * Describes where the reference images sit in the request, so the model can tell content from style.
+ * @param firstPosition - The 1-based position of the first reference image among the request images.
+ * @param count - The number of reference images.
+ */
+const describeReferenceImages = (firstPosition: number, count: number): string => {
+  if (count === 0) return '';
+  if (count === 1) {
+    return ` The ${ordinal(firstPosition)} image is a style reference: copy its colour palette, textures, line work and overall look, but not its content or layout.`;
+  }
+  const lastPosition = firstPosition + count - 1;
+  return ` Images ${firstPosition} to ${lastPosition} are style references: copy their shared colour palette, textures, line work and overall look, but not their content or layout.`;
+};
+
+/**
+ * Describes the zoom context image, the styled parent tiles enlarged to the area being restyled.
+ * @param position - The 1-based position of the image among the request images.
+ * @param hasGaps - Whether parts of the area have no styled parent and are left transparent.
+ */
+const describeZoomContext = (position: number, hasGaps: boolean): string =>
+  ` The ${ordinal(position)} image is the same area already styled one zoom level further out, enlarged to match${hasGaps ? ', with the parts that have no styled version left transparent' : ''}. Keep its colours, motifs and textures so the style doesn't change between zoom levels, while adding the finer detail of the first image.`;
+
+const toDataUrl = ({ data, mimeType }: Base64Image) => `data:${mimeType};base64,${data}`;
+
+/**
+ * Fills in a prompt template's placeholders. Unknown placeholders are left as they are.
+ * @param template - The template, with {style}, {lat}, {lng} and {zoom} placeholders.
+ * @param style - The style prompt.
+ * @param location - The centre of the area being restyled, if known.
+ * @returns The filled-in prompt.
+ */
+export const fillPromptTemplate = (template: string, style: string, location?: LocationState): string =>
+  template.replace(/\{(style|lat|lng|zoom)\}/g, (placeholder, name: string) => {
+    if (name === 'style') return style;
+    if (!location) return placeholder;
+    if (name === 'zoom') return String(location.zoom);
+    return (name === 'lat' ? location.lat : location.lng).toFixed(5);
+  });
+
+/**
+ * Builds the core instruction for a style: the filled-in prompt template plus the label and negative prompt rules.
+ */
+const buildInstruction = (style: StyleDefinition, location?: LocationState): string => {
+  let instruction = fillPromptTemplate(style.settings?.promptTemplate.trim() || DEFAULT_PROMPT_TEMPLATE, style.prompt, location);
+  if (style.labelFree) instruction += LABEL_FREE_INSTRUCTION;
+  const negativePrompt = style.settings?.negativePrompt.trim();
+  if (negativePrompt) instruction += ` The result must not contain any of the following: ${negativePrompt}.`;
+  return instruction;
+};
+
+/**
+ * The request fields that come from the advanced settings rather than the images and prompt.
+ */
+const requestOptions = (engine: StyleEngine, settings?: GenerationSettings): Pick<StyleRequest, 'model' | 'temperature' | 'seed'> => ({
+  model: settings?.model && engine.availableModels.includes(settings.model) ? settings.model : undefined,
+  temperature: engine.supportsSampling ? settings?.temperature ?? undefined : undefined,
+  seed: engine.supportsSampling ? settings?.seed ?? undefined : undefined,
+});
+
+/**
+ * The centre of a block of tiles, for the prompt template's placeholders.
+ */
+const blockCenter = (tiles: MapTile[]): LocationState => {
+  const columns = tiles.map(t => getUnwrappedTileX(t, tiles[0]));
+  const minX = Math.min(...columns);
+  const maxX = Math.max(...columns);
+  const minY = Math.min(...tiles.map(t => t.y));
+  const maxY = Math.max(...tiles.map(t => t.y));
+  const { lat, lng } = preciseTileXYToLatLng((minX + maxX + 1) / 2, (minY + maxY + 1) / 2, tiles[0].zoom);
+  return { lat, lng: normalizeLng(lng), zoom: tiles[0].zoom };
+};
+
+/**
+ * Describes the advanced settings that change the generated images, for the styled tile cache key.
+ * @param settings - The advanced settings.
+ * @returns An empty string when they match the defaults, so the default settings keep the original cache key.
+ */
+export const describeGenerationSettings = (settings: GenerationSettings): string => {
+  const parts: string[] = [];
+  const template = settings.promptTemplate.trim();
+  if (template && template !== DEFAULT_PROMPT_TEMPLATE) parts.push(`template:${template}`);
+  if (settings.negativePrompt.trim()) parts.push(`negative:${settings.negativePrompt.trim()}`);
+  if (settings.temperature !== null) parts.push(`temperature:${settings.temperature}`);
+  if (settings.seed !== null) parts.push(`seed:${settings.seed}`);
+  return parts.join('|');
+};
+
+/**
+ * Adapts a style for one of several variations, so each candidate differs even with a fixed seed.
+ * @param style - The style.
+ * @param index - The 0-based index of the variation.
+ * @returns The style for that variation.
+ */
+export const styleForVariation = (style: StyleDefinition, index: number): StyleDefinition => {
+  const seed = style.settings?.seed;
+  if (!style.settings || seed === null || seed === undefined || index === 0) return style;
+  return { ...style, settings: { ...style.settings, seed: seed + index } };
+};
+
+/**
+ * Builds the zoom context for a block of tiles: for each tile, its quadrant of the styled parent tile, enlarged.
+ * @param block - The tiles being restyled.
+ * @param pyramidTiles - Styled images of the tiles one zoom level further out, keyed by tile key.
+ * @returns The stitched image and whether every tile had a styled parent, or null if none had.
+ */
+const buildZoomContext = async (
+  block: TileBlock,
+  pyramidTiles: Record<string, string>,
+): Promise<{ image: Base64Image; isComplete: boolean } | null> => {
+  const urls = await Promise.all(block.map(row => Promise.all(row.map(tile => {
+    const parent = getParentQuadrant(tile);
+    const parentUrl = parent ? pyramidTiles[parent.key] : undefined;
+    return parent && parentUrl ? enlargeTileQuadrant(parentUrl, parent.col, parent.row) : null;
+  }))));
+  if (urls.flat().every(url => url === null)) return null;
+  return { image: canvasToBase64(await stitchTileImages(urls)), isComplete: urls.flat().every(url => url !== null) };
+};
+
+/**
+ * Builds a styled tile by scaling down its four styled children, so a zoomed-out tile matches the tiles under it.
+ * @param tile - The tile to build.
+ * @param pyramidTiles - Styled images of the tiles one zoom level further in, keyed by tile key.
+ * @returns A promise that resolves to a data URL of the styled tile, or null unless all four children are styled.
+ */
+export const composeStyledTileFromChildren = async (tile: MapTile, pyramidTiles: Record<string, string>): Promise<string | null> => {
+  const childUrls = getChildTileKeys(tile).map(row => row.map(key => pyramidTiles[key]));
+  if (childUrls.flat().some(url => !url)) return null;
+  return downsampleTileImages(childUrls);
+};
+
+/**
+ * Restyles a single tile image that has already been loaded. Unlike `generateStyledTile` this needs no DOM,
+ * so it is shared with the tile server.
+ * @param engine - The style engine that generates the image.
+ * @param image - The tile image to restyle.
+ * @param style - The target style.
+ * @param location - The tile's centre and zoom level, for the prompt template.
+ * @param signal - Cancels the request.
+ * @param zoomContext - The tile's quadrant of its styled parent tile, enlarged, to keep the style across zoom levels.
+ * @returns A promise that resolves to the styled tile image.
+ */
+export const stylizeTileImage = (
+  engine: StyleEngine,
+  image: Base64Image,
+  style: StyleDefinition,
+  location?: LocationState,
+  signal?: AbortSignal,
+  zoomContext?: Base64Image,
+): Promise<Base64Image> => {
+  const { referenceImages } = style;
+  const conditioningImages = zoomContext ? [zoomContext] : [];
+
+  let prompt = buildInstruction(style, location);
+  if (conditioningImages.length > 0 || referenceImages.length > 0) {
+    const zoomContextDescription = zoomContext ? describeZoomContext(2, false) : '';
+    prompt = `The first image is the map content to restyle.${zoomContextDescription}${describeReferenceImages(2 + conditioningImages.length, referenceImages.length)} ${prompt}`;
+  }
+
+  return engine.stylize({
+    image,
+    style: style.prompt,
+    prompt,
+    conditioningImages,
+    referenceImages,
+    ...requestOptions(engine, style.settings),
+    signal,
+  });
+};
+
+/**
+ * Restyles a single map tile.
+ * @param engine - The style engine that generates the image.
+ * @param tile - The map tile to restyle.
+ * @param style - The target style.
+ * @param pyramidTiles - Styled images of the tiles one zoom level further out, keyed by tile key. The tile's styled
+ *   parent is sent along so the new tile keeps its look.
+ * @param signal - Cancels the generation.
+ * @returns A promise that resolves to a data URL of the styled tile image.
+ */
+export const generateStyledTile = async (
+  engine: StyleEngine,
+  tile: MapTile,
+  style: StyleDefinition,
+  pyramidTiles: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<string> => {
+  console.log(`Converting tile ${tile.key} to base64...`);
+  const image = await imageUrlToBase64(styleInputUrl(tile));
+  const zoomContext = await buildZoomContext([[tile]], pyramidTiles);
+  signal?.throwIfAborted();
+  const styled = await stylizeTileImage(engine, image, style, blockCenter([tile]), signal, zoomContext?.image);
+  return toDataUrl(styled);
+};
+
+/**
+ * Checks that a block's rows all cover the same columns, so it can be stitched into a rectangle.
+ */
+const isRectangularBlock = (block: TileBlock): boolean =>
+  block.every(row => row.length === block[0].length && row.every((tile, index) => tile.gridX === block[0][index].gridX)) &&
+  block.every((row, index) => row[0].gridY === block[0][0].gridY + index);
+
+/**
+ * Groups tiles into square blocks of adjacent tiles based on their grid position.
+ * Blocks at the edge of the grid may be smaller than `blockSize`. Tiles that don't fill a rectangle, as at the
+ * ragged edge of a drawn region, become blocks of their own.
+ * @param tiles - The tiles to group, possibly from several zoom levels.
+ * @param blockSize - The number of tiles along each side of a block.
+ * @returns The blocks, by zoom level from the lowest, and within a level from the centre of the grid outwards.
+ */
+export const partitionIntoBlocks = (tiles: MapTile[], blockSize: number): TileBlock[] => {
+  const zooms = [...new Set(tiles.map(t => t.zoom))].sort((a, b) => a - b);
+  if (zooms.length > 1) {
+    return zooms.flatMap(zoom => partitionIntoBlocks(tiles.filter(t => t.zoom === zoom), blockSize));
+  }
+
+  const blocksById = new Map<string, MapTile[]>();
+  for (const tile of tiles) {
+    const id = `${Math.floor(tile.gridX / blockSize)},${Math.floor(tile.gridY / blockSize)}`;
+    const block = blocksById.get(id) ?? [];
+    block.push(tile);
+    blocksById.set(id, block);
+  }
+
+  const gridCenterX = (Math.min(...tiles.map(t => t.gridX)) + Math.max(...tiles.map(t => t.gridX))) / 2;
+  const gridCenterY = (Math.min(...tiles.map(t => t.gridY)) + Math.max(...tiles.map(t => t.gridY))) / 2;
+
+  const blocks = [...blocksById.values()].map(blockTiles => {
+    const rows = [...new Set(blockTiles.map(t => t.gridY))].sort((a, b) => a - b);
+    return rows.map(gridY => blockTiles.filter(t => t.gridY === gridY).sort((a, b) => a.gridX - b.gridX));
+  });
+
+  // Generating the centre first means outer blocks can be conditioned on already-styled inner neighbours.
+  const distanceFromCenter = (block: TileBlock) => {
+    const flat = block.flat();
+    const x = flat.reduce((sum, t) => sum + t.gridX, 0) / flat.length;
+    const y = flat.reduce((sum, t) => sum + t.gridY, 0) / flat.length;
+    return Math.hypot(x - gridCenterX, y - gridCenterY);
+  };
+  return blocks
+    .flatMap(block => (isRectangularBlock(block) ? [block] : block.flat().map(tile => [[tile]])))
+    .sort((a, b) => distanceFromCenter(a) - distanceFromCenter(b));
+};
+
+/**
+ * Restyles a block of adjacent tiles as a single stitched mosaic, so that styled tiles line up at their edges.
+ * @param engine - The style engine that generates the image.
+ * @param block - The block of tiles to restyle.
+ * @param allTiles - Every tile on the map, used to find the block's neighbours.
+ * @param styledTiles - Styled images that already exist, keyed by tile key. Styled neighbours of the block are
+ *   sent along so the new block continues them.
+ * @param style - The target style.
+ * @param pyramidTiles - Styled images of the tiles one zoom level further out, keyed by tile key. The block's styled
+ *   parents are sent along so the new block keeps their look.
+ * @param signal - Cancels the generation.
+ * @returns A promise that resolves to the styled tile data URLs, keyed by tile key.
+ */
+export const generateStyledMosaic = async (
+  engine: StyleEngine,
+  block: TileBlock,
+  allTiles: MapTile[],
+  styledTiles: Record<string, string>,
+  style: StyleDefinition,
+  pyramidTiles: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<Record<string, string>> => {
+  const rows = block.length;
+  const cols = block[0].length;
+  const originX = block[0][0].gridX;
+  const originY = block[0][0].gridY;
+  const label = `mosaic at ${block[0][0].key} (${cols}x${rows})`;
+
+  console.log(`Stitching ${label}...`);
+  const contentCanvas = await stitchTileImages(block.map(row => row.map(styleInputUrl)));
+  const content = canvasToBase64(contentCanvas);
+
+  // Lay out the ring of tiles surrounding the block, keeping only the ones that are already styled.
+  const tileByGrid = new Map(allTiles.map(t => [`${t.gridX},${t.gridY}`, t]));
+  let hasStyledNeighbour = false;
+  const contextUrls: (string | null)[][] = [];
+  for (let y = originY - 1; y <= originY + rows; y++) {
+    const row: (string | null)[] = [];
+    for (let x = originX - 1; x <= originX + cols; x++) {
+      const isInsideBlock = x >= originX && x < originX + cols && y >= originY && y < originY + rows;
+      const neighbour = tileByGrid.get(`${x},${y}`);
+      const styledUrl = !isInsideBlock && neighbour ? styledTiles[neighbour.key] : undefined;
+      if (styledUrl) hasStyledNeighbour = true;
+      row.push(styledUrl ?? null);
+    }
+    contextUrls.push(row);
+  }
+
+  const conditioningImages: Base64Image[] = [];
+  let prompt = `The first image is a ${cols}x${rows} mosaic of adjacent map tiles. ${buildInstruction(style, blockCenter(block.flat()))} Treat the mosaic as one continuous map: roads, colours and textures must flow across the whole image, and keep exactly the same framing as the input.`;
+
+  if (hasStyledNeighbour) {
+    const contextCanvas = await stitchTileImages(contextUrls);
+    conditioningImages.push(canvasToBase64(contextCanvas));
+    prompt += ` The second image shows the already-styled surroundings of this area, with the area itself left transparent in the middle. Match its colours, line weights and textures so that the restyled area continues it without visible seams.`;
+  }
+
+  const zoomContext = await buildZoomContext(block, pyramidTiles);
+  if (zoomContext) {
+    conditioningImages.push(zoomContext.image);
+    prompt += describeZoomContext(1 + conditioningImages.length, !zoomContext.isComplete);
+  }
+
+  const { referenceImages } = style;
+  prompt += describeReferenceImages(2 + conditioningImages.length, referenceImages.length);
+
+  signal?.throwIfAborted();
+  console.log(`Requesting ${label} from ${engine.name}...`);
+  const styledMosaic = await engine.stylize({
+    image: content,
+    style: style.prompt,
+    prompt,
+    conditioningImages,
+    referenceImages,
+    ...requestOptions(engine, style.settings),
+    signal,
+  });
+  const styledMosaicUrl = toDataUrl(styledMosaic);
+  const slices = await sliceMosaicImage(styledMosaicUrl, cols, rows);
+
+  const result: Record<string, string> = {};
+  block.forEach((row, rowIndex) => row.forEach((tile, colIndex) => {
+    result[tile.key] = slices[rowIndex][colIndex];
+  }));
+  return result;
+};
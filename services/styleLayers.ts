@@ -0,0 +1,66 @@
+import type { StyleLayer, StyleLayerState, GenerationSettings } from '../types';
+import { DEFAULT_GENERATION_SETTINGS } from '../constants';
+
+const STORAGE_KEY = 'map-style-transfer:style-layers';
+
+/**
+ * Creates a style layer with a new id.
+ * @param name - The layer's name.
+ * @param prompt - The layer's style prompt.
+ * @param generationSettings - The layer's advanced settings.
+ * @returns The layer.
+ */
+export const createStyleLayer = (name: string, prompt: string, generationSettings: GenerationSettings = DEFAULT_GENERATION_SETTINGS): StyleLayer => ({
+  id: `layer-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  prompt,
+  generationSettings,
+});
+
+const isStyleLayer = (value: unknown): value is StyleLayer => {
+  const layer = value as Partial<StyleLayer> | null;
+  return typeof layer?.id === 'string' && typeof layer.name === 'string' && typeof layer.prompt === 'string'
+    && typeof layer.generationSettings === 'object' && layer.generationSettings !== null;
+};
+
+/**
+ * Finds a layer's advanced settings, filling in any added since they were saved.
+ * @param layer - The style layer.
+ * @returns The settings.
+ */
+export const getLayerGenerationSettings = (layer: StyleLayer | undefined): GenerationSettings =>
+  ({ ...DEFAULT_GENERATION_SETTINGS, ...layer?.generationSettings });
+
+/**
+ * Loads the user's style layers. Without saved layers (or with unreadable ones) there is a single layer.
+ * @param defaultPrompt - The prompt of the layer created when there are no saved layers.
+ * @returns The layers and the active layer's id.
+ */
+export const loadStyleLayers = (defaultPrompt: string): StyleLayerState => {
+  let stored: Partial<StyleLayerState> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') ?? {};
+  } catch (err) {
+    console.warn('Ignoring unreadable style layers:', err);
+  }
+
+  const layers = Array.isArray(stored.layers) ? stored.layers.filter(isStyleLayer) : [];
+  if (layers.length === 0) {
+    const layer = createStyleLayer(defaultPrompt, defaultPrompt);
+    return { layers: [layer], activeLayerId: layer.id };
+  }
+  const activeLayerId = layers.some(layer => layer.id === stored.activeLayerId) ? stored.activeLayerId as string : layers[0].id;
+  return { layers, activeLayerId };
+};
+
+/**
+ * Saves the user's style layers for the next visit.
+ * @param state - The layers and the active layer's id.
+ */
+export const saveStyleLayers = (state: StyleLayerState): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (err) {
+    console.warn('Could not save style layers:', err);
+  }
+};
@@ -0,0 +1,49 @@
+import { openDatabase, promisifyRequest, transactionDone, STYLES_STORE } from './db';
+import type { Base64Image } from './imageUtils';
+
+/**
+ * The reference images of a style layer. They are too large for the layer list in local storage, so they are
+ * kept here under the layer's id.
+ */
+export interface SavedStyle {
+  layerId: string;
+  referenceImages: Base64Image[];
+  updatedAt: number;
+}
+
+/**
+ * Loads the saved reference images of a style layer.
+ * @param layerId - The style layer's id.
+ * @returns A promise that resolves to the saved style, or null if nothing was saved for this layer.
+ */
+export const loadSavedStyle = async (layerId: string): Promise<SavedStyle | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STYLES_STORE, 'readonly');
+  const saved = await promisifyRequest<SavedStyle | undefined>(transaction.objectStore(STYLES_STORE).get(layerId));
+  return saved ?? null;
+};
+
+/**
+ * Saves the reference images of a style layer, replacing whatever was saved for it before.
+ * @param style - The style to save.
+ */
+export const saveStyle = async (style: Omit<SavedStyle, 'updatedAt'>): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STYLES_STORE, 'readwrite');
+  const done = transactionDone(transaction);
+  const record: SavedStyle = { ...style, updatedAt: Date.now() };
+  transaction.objectStore(STYLES_STORE).put(record);
+  await done;
+};
+
+/**
+ * Forgets the saved reference images of a removed style layer.
+ * @param layerId - The style layer's id.
+ */
+export const deleteSavedStyle = async (layerId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STYLES_STORE, 'readwrite');
+  const done = transactionDone(transaction);
+  transaction.objectStore(STYLES_STORE).delete(layerId);
+  await done;
+};
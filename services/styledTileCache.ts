@@ -0,0 +1,267 @@
+import { openDatabase, promisifyRequest, transactionDone, STYLED_TILES_STORE } from './db';
+import type { Base64Image } from './imageUtils';
+import type { TileHistory } from './tileHistory';
+import { STYLED_TILE_CACHE_MAX_ENTRIES, STYLED_TILE_CACHE_MAX_BYTES } from '../constants';
+
+interface StyledTileRecord {
+  id: string;          // `${styleHash}/${tileKey}`
+  styleHash: string;
+  tileKey: string;     // `${zoom}-${x}-${y}`
+  dataUrl: string;
+  size: number;        // approximate size of the data URLs in bytes
+  createdAt: number;
+  lastAccessed: number;
+  // Pinned tiles keep their image when the area is restyled again, and are never evicted.
+  pinned?: boolean;
+  // The tile's earlier and undone versions, evicted along with it.
+  history?: TileHistory;
+}
+
+export interface CachedStyledTile {
+  dataUrl: string;
+  pinned: boolean;
+  // Null if the tile was cached without a history.
+  history: TileHistory | null;
+}
+
+const recordId = (styleHash: string, tileKey: string) => `${styleHash}/${tileKey}`;
+
+// The shown image is usually one of the versions, so it is only counted once.
+const recordSize = (dataUrl: string, history: TileHistory | undefined) =>
+  dataUrl.length + (history?.versions ?? []).reduce((sum, version) => sum + (version === dataUrl ? 0 : version.length), 0);
+
+/**
+ * Computes a short, stable hash identifying a style, so cached tiles are only reused for the same prompt, model,
+ * reference images, base map and style layer. Uses 32-bit FNV-1a, which is plenty for telling styles apart and
+ * keeps the lookup synchronous.
+ * @param stylePrompt - The style prompt.
+ * @param model - The name of the model that generates the tiles.
+ * @param referenceImages - The style reference images, if any.
+ * @param baseLayer - Describes the base tiles being restyled when they can vary, e.g. from `describeSessionOptions`.
+ * @param settings - Describes non-default generation settings, from `describeGenerationSettings`.
+ * @param layerId - The style layer the tiles belong to, so layers with the same prompt don't share tiles.
+ * @returns The hash as a hex string.
+ */
+export const hashStyle = (
+  stylePrompt: string,
+  model: string,
+  referenceImages: Base64Image[] = [],
+  baseLayer: string = '',
+  settings: string = '',
+  layerId: string = '',
+): string => {
+  const parts = [model, stylePrompt, ...referenceImages.map(image => image.data)];
+  // Only added when set, so hashes for sources without base map options or custom settings stay the same.
+  if (baseLayer) parts.push(`base:${baseLayer}`);
+  if (settings) parts.push(`settings:${settings}`);
+  if (layerId) parts.push(`layer:${layerId}`);
+  const input = parts.join('\u0000');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Looks up cached styled tiles for a style and marks the hits as recently used.
+ * @param styleHash - The hash of the style, from `hashStyle`.
+ * @param tileKeys - The tile keys to look up.
+ * @returns A promise that resolves to the cached tiles keyed by tile key. Misses are omitted.
+ */
+export const getCachedStyledTiles = async (styleHash: string, tileKeys: string[]): Promise<Record<string, CachedStyledTile>> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STYLED_TILES_STORE, 'readwrite');
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(STYLED_TILES_STORE);
+  const now = Date.now();
+
+  const records = await Promise.all(
+    tileKeys.map(tileKey => promisifyRequest<StyledTileRecord | undefined>(store.get(recordId(styleHash, tileKey))))
+  );
+
+  const hits: Record<string, CachedStyledTile> = {};
+  for (const record of records) {
+    if (!record) continue;
+    hits[record.tileKey] = { dataUrl: record.dataUrl, pinned: record.pinned ?? false, history: record.history ?? null };
+    store.put({ ...record, lastAccessed: now });
+  }
+
+  await done;
+  return hits;
+};
+
+// Running totals for the whole cache, loaded once per session so eviction checks don't have to scan every tile.
+let cacheUsage: { entries: number; bytes: number } | null = null;
+
+const loadCacheUsage = async (): Promise<{ entries: number; bytes: number }> => {
+  if (cacheUsage) return cacheUsage;
+  const db = await openDatabase();
+  const transaction = db.transaction(STYLED_TILES_STORE, 'readonly');
+  const records = await promisifyRequest<StyledTileRecord[]>(transaction.objectStore(STYLED_TILES_STORE).getAll());
+  cacheUsage = {
+    entries: records.length,
+    bytes: records.reduce((sum, r) => sum + r.size, 0),
+  };
+  return cacheUsage;
+};
+
+const isOverLimit = (usage: { entries: number; bytes: number }) =>
+  usage.entries > STYLED_TILE_CACHE_MAX_ENTRIES || usage.bytes > STYLED_TILE_CACHE_MAX_BYTES;
+
+/**
+ * Stores a styled tile in the cache, evicting the least recently used tiles if the cache grows past its limits.
+ * A pinned tile is left as it is, and a saved history is kept.
+ * @param styleHash - The hash of the style, from `hashStyle`.
+ * @param tileKey - The tile key, `${zoom}-${x}-${y}`.
+ * @param dataUrl - The styled tile image as a data URL.
+ */
+export const putCachedStyledTile = async (styleHash: string, tileKey: string, dataUrl: string): Promise<void> => {
+  const usage = await loadCacheUsage();
+  const db = await openDatabase();
+  const transaction = db.transaction(STYLED_TILES_STORE, 'readwrite');
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(STYLED_TILES_STORE);
+  const now = Date.now();
+  const id = recordId(styleHash, tileKey);
+
+  const previous = await promisifyRequest<StyledTileRecord | undefined>(store.get(id));
+  if (previous?.pinned) {
+    await done;
+    return;
+  }
+  const record: StyledTileRecord = {
+    id,
+    styleHash,
+    tileKey,
+    dataUrl,
+    size: recordSize(dataUrl, previous?.history),
+    createdAt: now,
+    lastAccessed: now,
+    history: previous?.history,
+  };
+  store.put(record);
+  await done;
+
+  usage.entries += previous ? 0 : 1;
+  usage.bytes += record.size - (previous?.size ?? 0);
+
+  if (isOverLimit(usage)) {
+    await evictLeastRecentlyUsed(usage);
+  }
+};
+
+/**
+ * Saves a tile's history with its cached image. A tile that isn't cached yet is cached with the version the
+ * history shows.
+ * @param styleHash - The hash of the style, from `hashStyle`.
+ * @param tileKey - The tile key, `${zoom}-${x}-${y}`.
+ * @param history - The tile's history.
+ */
+export const putCachedStyledTileHistory = async (styleHash: string, tileKey: string, history: TileHistory): Promise<void> => {
+  const usage = await loadCacheUsage();
+  const db = await openDatabase();
+  const transaction = db.transaction(STYLED_TILES_STORE, 'readwrite');
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(STYLED_TILES_STORE);
+  const now = Date.now();
+  const id = recordId(styleHash, tileKey);
+
+  const previous = await promisifyRequest<StyledTileRecord | undefined>(store.get(id));
+  const dataUrl = previous?.dataUrl ?? history.versions[history.index];
+  const record: StyledTileRecord = previous
+    ? { ...previous, size: recordSize(dataUrl, history), history }
+    : { id, styleHash, tileKey, dataUrl, size: recordSize(dataUrl, history), createdAt: now, lastAccessed: now, history };
+  store.put(record);
+  await done;
+
+  usage.entries += previous ? 0 : 1;
+  usage.bytes += record.size - (previous?.size ?? 0);
+
+  if (isOverLimit(usage)) {
+    await evictLeastRecentlyUsed(usage);
+  }
+};
+
+/**
+ * Pins or unpins a cached tile. Does nothing if the tile isn't cached.
+ * @param styleHash - The hash of the style, from `hashStyle`.
+ * @param tileKey - The tile key, `${zoom}-${x}-${y}`.
+ * @param pinned - Whether the tile should be pinned.
+ */
+export const setCachedStyledTilePinned = async (styleHash: string, tileKey: string, pinned: boolean): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STYLED_TILES_STORE, 'readwrite');
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(STYLED_TILES_STORE);
+
+  const record = await promisifyRequest<StyledTileRecord | undefined>(store.get(recordId(styleHash, tileKey)));
+  if (record) store.put({ ...record, pinned });
+  await done;
+};
+
+/**
+ * Deletes the least recently used tiles until the cache is within its entry count and size limits. Pinned tiles are kept.
+ * @param usage - The running cache totals, updated in place.
+ */
+const evictLeastRecentlyUsed = async (usage: { entries: number; bytes: number }): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STYLED_TILES_STORE, 'readwrite');
+  const done = transactionDone(transaction);
+  const index = transaction.objectStore(STYLED_TILES_STORE).index('lastAccessed');
+
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || !isOverLimit(usage)) return resolve();
+      const record = cursor.value as StyledTileRecord;
+      if (record.pinned) {
+        cursor.continue();
+        return;
+      }
+      cursor.delete();
+      usage.entries--;
+      usage.bytes -= record.size;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  await done;
+  console.log(`Styled tile cache evicted down to ${usage.entries} tiles (${usage.bytes} bytes).`);
+};
+
+/**
+ * Reads every cached tile for a style, without touching their last-used times.
+ * @param styleHash - The hash of the style, from `hashStyle`.
+ * @returns A promise that resolves to the cached data URLs keyed by tile key.
+ */
+export const getAllCachedStyledTiles = async (styleHash: string): Promise<Record<string, string>> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STYLED_TILES_STORE, 'readonly');
+  const index = transaction.objectStore(STYLED_TILES_STORE).index('styleHash');
+  const records = await promisifyRequest<StyledTileRecord[]>(index.getAll(IDBKeyRange.only(styleHash)));
+  return Object.fromEntries(records.map(record => [record.tileKey, record.dataUrl]));
+};
+
+/**
+ * Removes every cached tile for a style.
+ * @param styleHash - The hash of the style, from `hashStyle`.
+ * @returns A promise that resolves to the number of removed tiles.
+ */
+export const clearStyleCache = async (styleHash: string): Promise<number> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STYLED_TILES_STORE, 'readwrite');
+  const done = transactionDone(transaction);
+  const index = transaction.objectStore(STYLED_TILES_STORE).index('styleHash');
+
+  const ids = await promisifyRequest(index.getAllKeys(IDBKeyRange.only(styleHash)));
+  ids.forEach(id => transaction.objectStore(STYLED_TILES_STORE).delete(id));
+
+  await done;
+  // The removed sizes aren't known without reading every record, so recount on the next write.
+  cacheUsage = null;
+  return ids.length;
+};
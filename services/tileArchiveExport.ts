@@ -0,0 +1,96 @@
+import { getAllCachedStyledTiles } from './styledTileCache';
+import { parseTileKey, preciseTileXYToLatLng } from './googleMaps';
+import { writePMTiles } from './pmtiles';
+import type { PMTilesTile } from './pmtiles';
+import { loadImage, createCanvas, canvasToBase64 } from './imageUtils';
+import { downloadBlob } from './download';
+
+export interface TileArchiveSummary {
+  tileCount: number;
+  minZoom: number;
+  maxZoom: number;
+  filename: string;
+}
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * Decodes a styled tile data URL into PNG bytes, re-encoding it if the model returned another format,
+ * since an archive can only declare a single tile type.
+ */
+const dataUrlToPngBytes = async (dataUrl: string): Promise<Uint8Array> => {
+  const mimeType = dataUrl.substring(dataUrl.indexOf(':') + 1, dataUrl.indexOf(';'));
+  if (mimeType === 'image/png') {
+    return base64ToBytes(dataUrl.substring(dataUrl.indexOf(',') + 1));
+  }
+  const img = await loadImage(dataUrl);
+  const { canvas, ctx } = createCanvas(img.width, img.height);
+  ctx.drawImage(img, 0, 0);
+  return base64ToBytes(canvasToBase64(canvas).data);
+};
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 48) || 'style';
+
+/**
+ * Packages every cached styled tile of a style into a PMTiles archive and downloads it.
+ * @param styleHash - The hash of the style, from `hashStyle`.
+ * @param stylePrompt - The style prompt, used as the archive's description.
+ * @param model - The model that generated the tiles, recorded in the metadata.
+ * @returns A promise that resolves to a summary of the exported archive.
+ */
+export const exportStyleAsPMTiles = async (styleHash: string, stylePrompt: string, model: string): Promise<TileArchiveSummary> => {
+  const cached = await getAllCachedStyledTiles(styleHash);
+
+  const tiles: PMTilesTile[] = [];
+  for (const [key, dataUrl] of Object.entries(cached)) {
+    const coords = parseTileKey(key);
+    if (!coords) {
+      console.warn(`Skipping cached tile with unexpected key "${key}".`);
+      continue;
+    }
+    tiles.push({ ...coords, data: await dataUrlToPngBytes(dataUrl) });
+  }
+
+  if (tiles.length === 0) {
+    throw new Error('No styled tiles have been generated for this style yet.');
+  }
+
+  // The archive bounds are the union of every tile's extent; tile y grows southwards.
+  let minLng = Infinity, minLat = Infinity, maxLng = -Infinity, maxLat = -Infinity;
+  for (const tile of tiles) {
+    const northWest = preciseTileXYToLatLng(tile.x, tile.y, tile.zoom);
+    const southEast = preciseTileXYToLatLng(tile.x + 1, tile.y + 1, tile.zoom);
+    minLng = Math.min(minLng, northWest.lng);
+    maxLng = Math.max(maxLng, southEast.lng);
+    minLat = Math.min(minLat, southEast.lat);
+    maxLat = Math.max(maxLat, northWest.lat);
+  }
+  const minZoom = Math.min(...tiles.map(t => t.zoom));
+  const maxZoom = Math.max(...tiles.map(t => t.zoom));
+
+  const archive = writePMTiles(tiles, {
+    tileType: 'png',
+    metadata: {
+      name: stylePrompt,
+      description: stylePrompt,
+      type: 'baselayer',
+      format: 'png',
+      generator: model,
+      minzoom: minZoom,
+      maxzoom: maxZoom,
+      bounds: [minLng, minLat, maxLng, maxLat],
+    },
+    bounds: { minLng, minLat, maxLng, maxLat },
+    center: { lng: (minLng + maxLng) / 2, lat: (minLat + maxLat) / 2, zoom: minZoom },
+  });
+
+  const filename = `${slugify(stylePrompt)}.pmtiles`;
+  downloadBlob(archive, filename);
+  console.log(`Exported ${tiles.length} styled tiles (z${minZoom}-z${maxZoom}) as ${filename}`);
+  return { tileCount: tiles.length, minZoom, maxZoom, filename };
+};
@@ -0,0 +1,35 @@
+import { MAX_TILE_HISTORY } from '../constants';
+
+/**
+ * The styled versions of one tile, oldest first, and which one is shown.
+ */
+export interface TileHistory {
+  versions: string[];
+  index: number;
+}
+
+/**
+ * Adds a new version after the one currently shown. Versions that were undone past are dropped, as in an editor.
+ * @param history - The tile's history, if it has one.
+ * @param url - The new styled image.
+ * @returns The updated history, with the new version shown. The oldest versions are dropped beyond `MAX_TILE_HISTORY`.
+ */
+export const pushTileVersion = (history: TileHistory | undefined, url: string): TileHistory => {
+  if (!history) return { versions: [url], index: 0 };
+  if (history.versions[history.index] === url) return history;
+  const versions = [...history.versions.slice(0, history.index + 1), url].slice(-MAX_TILE_HISTORY);
+  return { versions, index: versions.length - 1 };
+};
+
+/**
+ * Moves through a tile's history.
+ * @param history - The tile's history.
+ * @param step - -1 to undo, 1 to redo.
+ * @returns The updated history, or null if there is nothing to undo or redo.
+ */
+export const stepTileHistory = (history: TileHistory | undefined, step: -1 | 1): TileHistory | null => {
+  if (!history) return null;
+  const index = history.index + step;
+  if (index < 0 || index >= history.versions.length) return null;
+  return { ...history, index };
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { getChildTileKeys, getParentQuadrant, getPyramidNeighbourKeys } from './tilePyramid';
+import { getAncestorTile } from './googleMaps';
+
+describe('getAncestorTile', () => {
+  it('halves the coordinates once per level', () => {
+    expect(getAncestorTile(5, 19, 10, 1)).toEqual({ zoom: 4, x: 9, y: 5 });
+    expect(getAncestorTile(5, 19, 10, 3)).toEqual({ zoom: 2, x: 2, y: 1 });
+    expect(getAncestorTile(5, 19, 10, 5)).toEqual({ zoom: 0, x: 0, y: 0 });
+  });
+
+  it('stays exact for the largest coordinates', () => {
+    const last = Math.pow(2, 22) - 1;
+    expect(getAncestorTile(22, last, last, 21)).toEqual({ zoom: 1, x: 1, y: 1 });
+  });
+
+  it('has no ancestor above zoom 0', () => {
+    expect(getAncestorTile(2, 3, 3, 3)).toBeNull();
+  });
+});
+
+describe('getParentQuadrant', () => {
+  it('finds the parent and the quadrant the tile covers', () => {
+    expect(getParentQuadrant({ zoom: 3, x: 4, y: 4 })).toEqual({ key: '2-2-2', col: 0, row: 0 });
+    expect(getParentQuadrant({ zoom: 3, x: 5, y: 4 })).toEqual({ key: '2-2-2', col: 1, row: 0 });
+    expect(getParentQuadrant({ zoom: 3, x: 4, y: 5 })).toEqual({ key: '2-2-2', col: 0, row: 1 });
+    expect(getParentQuadrant({ zoom: 3, x: 5, y: 5 })).toEqual({ key: '2-2-2', col: 1, row: 1 });
+  });
+
+  it('has no parent at zoom 0', () => {
+    expect(getParentQuadrant({ zoom: 0, x: 0, y: 0 })).toBeNull();
+  });
+});
+
+describe('getChildTileKeys', () => {
+  it('lists the four children as rows of columns from the top left', () => {
+    expect(getChildTileKeys({ zoom: 2, x: 1, y: 3 })).toEqual([['3-2-6', '3-3-6'], ['3-2-7', '3-3-7']]);
+  });
+
+  it('agrees with getParentQuadrant on which child is in which quadrant', () => {
+    const tile = { zoom: 4, x: 7, y: 9 };
+    getChildTileKeys(tile).forEach((row, rowIndex) => row.forEach((key, colIndex) => {
+      const [zoom, x, y] = key.split('-').map(Number);
+      expect(getParentQuadrant({ zoom, x, y })).toEqual({ key: '4-7-9', col: colIndex, row: rowIndex });
+    }));
+  });
+});
+
+describe('getPyramidNeighbourKeys', () => {
+  it('lists the parents and children of the tiles once each', () => {
+    const keys = getPyramidNeighbourKeys([{ zoom: 1, x: 0, y: 0 }, { zoom: 1, x: 1, y: 0 }]);
+    expect(keys.sort()).toEqual(['0-0-0', '2-0-0', '2-0-1', '2-1-0', '2-1-1', '2-2-0', '2-2-1', '2-3-0', '2-3-1']);
+  });
+});
@@ -0,0 +1,47 @@
+import type { MapTile } from '../types';
+import { getAncestorTile, toTileKey } from './googleMaps';
+
+/**
+ * Where a tile sits within the tile one zoom level further out.
+ */
+export interface ParentQuadrant {
+  key: string;
+  // Which half of the parent the tile covers: 0 for the left or top half, 1 for the right or bottom half.
+  col: number;
+  row: number;
+}
+
+/**
+ * Finds the parent of a tile and the quadrant of it the tile covers.
+ * @param tile - The tile's zoom level and coordinates.
+ * @returns The parent's key and the quadrant, or null at zoom 0.
+ */
+export const getParentQuadrant = ({ zoom, x, y }: Pick<MapTile, 'zoom' | 'x' | 'y'>): ParentQuadrant | null => {
+  // The same parent the overzoomed tiles are cropped from, so both agree on which quadrant is which.
+  const parent = getAncestorTile(zoom, x, y, 1);
+  if (!parent) return null;
+  return { key: toTileKey(parent.zoom, parent.x, parent.y), col: x & 1, row: y & 1 };
+};
+
+/**
+ * Finds the four tiles one zoom level further in that cover a tile.
+ * @param tile - The tile's zoom level and coordinates.
+ * @returns The children's keys, as rows of columns from the top left.
+ */
+export const getChildTileKeys = ({ zoom, x, y }: Pick<MapTile, 'zoom' | 'x' | 'y'>): string[][] =>
+  [0, 1].map(row => [0, 1].map(col => toTileKey(zoom + 1, 2 * x + col, 2 * y + row)));
+
+/**
+ * Lists the parents and children of some tiles, to look up their styled images.
+ * @param tiles - The tiles.
+ * @returns The keys of every tile one zoom level above or below them.
+ */
+export const getPyramidNeighbourKeys = (tiles: Pick<MapTile, 'zoom' | 'x' | 'y'>[]): string[] => {
+  const keys = new Set<string>();
+  for (const tile of tiles) {
+    const parent = getParentQuadrant(tile);
+    if (parent) keys.add(parent.key);
+    getChildTileKeys(tile).flat().forEach(key => keys.add(key));
+  }
+  return [...keys];
+};
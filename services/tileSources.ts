@@ -0,0 +1,111 @@
+import type { MapSession, MapSessionOptions, MapLayerVariant } from '../types';
+import { fetchSession } from './googleMaps';
+import { MAX_ZOOM } from '../constants';
+
+/**
+ * A provider of 256px raster map tiles addressed by zoom and XYZ tile coordinates.
+ */
+export interface TileSource {
+  id: string;
+  name: string;
+  maxZoom: number;
+  /**
+   * Creates a session whose token must be passed to `getTileUrl`.
+   * Only present for sources that need one (e.g. the Google Map Tiles API). Such sources also support the
+   * label-free and labels-only layer variants used by label-preserving mode.
+   */
+  createSession?: (options: MapSessionOptions, variant?: MapLayerVariant) => Promise<MapSession>;
+  getTileUrl: (zoom: number, x: number, y: number, sessionToken: string | null) => string;
+}
+
+/**
+ * Creates a tile source backed by the Google Map Tiles API.
+ * @param apiKey - Your Google Maps API key.
+ * @returns The tile source.
+ */
+export const createGoogleTileSource = (apiKey: string): TileSource => ({
+  id: 'google',
+  name: 'Google Map Tiles',
+  maxZoom: MAX_ZOOM,
+  createSession: (options, variant) => fetchSession(apiKey, options, variant),
+  getTileUrl: (zoom, x, y, sessionToken) => {
+    if (!sessionToken) {
+      throw new Error('The Google Map Tiles API requires a session token.');
+    }
+    return `https://tile.googleapis.com/v1/2dtiles/${zoom}/${x}/${y}?session=${sessionToken}&key=${apiKey}`;
+  },
+});
+
+/**
+ * Creates a tile source from a URL template such as `https://tile.openstreetmap.org/{z}/{x}/{y}.png`.
+ * @param urlTemplate - The tile URL with `{z}`, `{x}` and `{y}` placeholders.
+ * @param maxZoom - The highest zoom level the server provides.
+ * @returns The tile source.
+ */
+export const createUrlTemplateTileSource = (urlTemplate: string, maxZoom: number = MAX_ZOOM): TileSource => {
+  if (!['{z}', '{x}', '{y}'].every(placeholder => urlTemplate.includes(placeholder))) {
+    throw new Error(`Tile URL template "${urlTemplate}" must contain {z}, {x} and {y} placeholders.`);
+  }
+  return {
+    id: 'xyz',
+    name: `XYZ tiles (${urlTemplate.match(/^https?:\/\/([^/]+)/)?.[1] ?? urlTemplate})`,
+    maxZoom,
+    getTileUrl: (zoom, x, y) => urlTemplate
+      .replace('{z}', String(zoom))
+      .replace('{x}', String(x))
+      .replace('{y}', String(y)),
+  };
+};
+
+/**
+ * Creates a tile source for a static directory of pre-rendered tiles laid out as `{z}/{x}/{y}.{extension}`,
+ * e.g. a folder under `public/` served by the dev server.
+ * @param directory - The directory path or URL, relative to the app's origin.
+ * @param extension - The tile image file extension.
+ * @param maxZoom - The highest zoom level present in the directory.
+ * @returns The tile source.
+ */
+export const createLocalDirectoryTileSource = (directory: string, extension: string = 'png', maxZoom: number = MAX_ZOOM): TileSource => {
+  const base = directory.replace(/\/+$/, '');
+  return {
+    ...createUrlTemplateTileSource(`${base}/{z}/{x}/{y}.${extension}`, maxZoom),
+    id: 'local',
+    name: `Local tiles (${base})`,
+  };
+};
+
+/**
+ * Creates the tile source selected by the build configuration.
+ *
+ * `TILE_SOURCE` picks the implementation: `google` (default, needs `MAPS_API_KEY`), `xyz` (needs
+ * `TILE_URL_TEMPLATE`) or `local` (needs `TILE_DIRECTORY`, optionally `TILE_EXTENSION`).
+ * `TILE_MAX_ZOOM` caps the zoom level for the non-Google sources.
+ * @returns The configured tile source.
+ */
+export const createTileSourceFromConfig = (): TileSource => {
+  const sourceType = process.env.TILE_SOURCE || 'google';
+  const maxZoom = process.env.TILE_MAX_ZOOM ? Number(process.env.TILE_MAX_ZOOM) : MAX_ZOOM;
+  if (!Number.isInteger(maxZoom) || maxZoom < 0 || maxZoom > MAX_ZOOM) {
+    throw new Error(`Invalid TILE_MAX_ZOOM "${process.env.TILE_MAX_ZOOM}". Expected a whole number from 0 to ${MAX_ZOOM}.`);
+  }
+
+  switch (sourceType) {
+    case 'google':
+      if (!process.env.MAPS_API_KEY) {
+        throw new Error("MAPS_API_KEY environment variable not set. Please provide a valid API key for Google services.");
+      }
+      return createGoogleTileSource(process.env.MAPS_API_KEY);
+    case 'xyz':
+      if (!process.env.TILE_URL_TEMPLATE) {
+        throw new Error("TILE_URL_TEMPLATE environment variable not set. It is required when TILE_SOURCE is 'xyz'.");
+      }
+      return createUrlTemplateTileSource(process.env.TILE_URL_TEMPLATE, maxZoom);
+    case 'local':
+      if (!process.env.TILE_DIRECTORY) {
+        throw new Error("TILE_DIRECTORY environment variable not set. It is required when TILE_SOURCE is 'local'.");
+      }
+      return createLocalDirectoryTileSource(process.env.TILE_DIRECTORY, process.env.TILE_EXTENSION || 'png', maxZoom);
+    default:
+      throw new Error(`Unknown TILE_SOURCE "${sourceType}". Expected 'google', 'xyz' or 'local'.`);
+  }
+};
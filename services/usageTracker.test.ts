@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getUsageBudgetError, trackStyleEngineUsage } from './usageTracker';
+import type { UsageTracker } from './usageTracker';
+import { createLocalStyleEngine } from './styleEngines';
+import type { UsageBudgets, UsageCounters, UsageSnapshot } from '../types';
+
+const NO_BUDGETS: UsageBudgets = { sessionRequests: null, dailyRequests: null, sessionTokens: null, dailyTokens: null };
+
+const counters = (counts: Partial<UsageCounters> = {}): UsageCounters =>
+  ({ requests: 0, failures: 0, inputTokens: 0, outputTokens: 0, tileFetches: 0, ...counts });
+
+const snapshot = (usage: { session?: Partial<UsageCounters>; today?: Partial<UsageCounters>; budgets?: Partial<UsageBudgets> }): UsageSnapshot => ({
+  session: counters(usage.session),
+  today: counters(usage.today),
+  total: counters(usage.today),
+  budgets: { ...NO_BUDGETS, ...usage.budgets },
+});
+
+describe('getUsageBudgetError', () => {
+  it('lets generation go on without budgets', () => {
+    expect(getUsageBudgetError(snapshot({ session: { requests: 1000, inputTokens: 1e9 } }))).toBeNull();
+  });
+
+  it('lets generation go on until a budget is reached', () => {
+    expect(getUsageBudgetError(snapshot({ session: { requests: 4 }, budgets: { sessionRequests: 5 } }))).toBeNull();
+    expect(getUsageBudgetError(snapshot({ session: { requests: 5 }, budgets: { sessionRequests: 5 } })))
+      .toBe('The session budget of 5 generation requests has been used up. Raise the limit in the Usage panel to keep generating.');
+  });
+
+  it('checks today\'s requests', () => {
+    expect(getUsageBudgetError(snapshot({ session: { requests: 1 }, today: { requests: 20 }, budgets: { sessionRequests: 10, dailyRequests: 20 } })))
+      .toMatch(/^Today's budget of 20 generation requests has been used up\./);
+  });
+
+  it('counts input and output tokens together', () => {
+    const usage = { session: { inputTokens: 600, outputTokens: 399 }, budgets: { sessionTokens: 1000 } };
+    expect(getUsageBudgetError(snapshot(usage))).toBeNull();
+    expect(getUsageBudgetError(snapshot({ ...usage, session: { inputTokens: 600, outputTokens: 400 } })))
+      .toMatch(/^The session budget of 1,000 tokens has been used up\./);
+    expect(getUsageBudgetError(snapshot({ today: { inputTokens: 5000, outputTokens: 5000 }, budgets: { dailyTokens: 10000 } })))
+      .toMatch(/^Today's budget of 10,000 tokens has been used up\./);
+  });
+
+  it('treats a budget of zero as used up', () => {
+    expect(getUsageBudgetError(snapshot({ budgets: { dailyRequests: 0 } }))).toMatch(/^Today's budget of 0 generation requests/);
+  });
+
+  it('reports request budgets before token budgets', () => {
+    expect(getUsageBudgetError(snapshot({ session: { requests: 2, inputTokens: 100 }, budgets: { sessionRequests: 2, sessionTokens: 100 } })))
+      .toMatch(/generation requests/);
+  });
+});
+
+describe('trackStyleEngineUsage', () => {
+  it('leaves engines without pricing untracked and unlimited', () => {
+    const engine = createLocalStyleEngine();
+    const getBudgetError = vi.fn(() => 'Used up.');
+    const tracker = { getBudgetError } as unknown as UsageTracker;
+    expect(trackStyleEngineUsage(engine, tracker)).toBe(engine);
+    expect(getBudgetError).not.toHaveBeenCalled();
+  });
+});
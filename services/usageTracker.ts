@@ -0,0 +1,198 @@
+import type { UsageCounters, UsageBudgets, UsageSnapshot } from '../types';
+import type { StyleEngine, TokenUsage } from './styleEngines';
+import { DEFAULT_USAGE_BUDGETS } from '../constants';
+
+const STORAGE_KEY = 'map-style-transfer:usage';
+const BUDGETS_STORAGE_KEY = 'map-style-transfer:usage-budgets';
+
+/**
+ * Counts generation requests, tokens, failures and tile loads for the session and persistently, and enforces
+ * the user's generation budgets.
+ */
+export interface UsageTracker {
+  getSnapshot: () => UsageSnapshot;
+  recordRequest: () => void;
+  recordFailure: () => void;
+  recordTokens: (usage: TokenUsage) => void;
+  recordTileFetches: (count: number) => void;
+  setBudgets: (budgets: UsageBudgets) => void;
+  // Explains which budget has been used up, or returns null if generation may go on.
+  getBudgetError: () => string | null;
+  // Calls the listener with the current usage now and after every change. Returns a function that unsubscribes.
+  subscribe: (listener: (snapshot: UsageSnapshot) => void) => () => void;
+}
+
+interface StoredUsage {
+  // The local date `today` counts, as YYYY-MM-DD.
+  day: string;
+  today: UsageCounters;
+  total: UsageCounters;
+}
+
+const emptyCounters = (): UsageCounters => ({ requests: 0, failures: 0, inputTokens: 0, outputTokens: 0, tileFetches: 0 });
+
+const addCounters = (a: UsageCounters, b: Partial<UsageCounters>): UsageCounters => ({
+  requests: a.requests + (b.requests ?? 0),
+  failures: a.failures + (b.failures ?? 0),
+  inputTokens: a.inputTokens + (b.inputTokens ?? 0),
+  outputTokens: a.outputTokens + (b.outputTokens ?? 0),
+  tileFetches: a.tileFetches + (b.tileFetches ?? 0),
+});
+
+const localDay = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const readCounters = (value: unknown): UsageCounters => addCounters(emptyCounters(), {
+  ...Object.fromEntries(Object.entries((value ?? {}) as Record<string, unknown>).filter(([, count]) => typeof count === 'number' && count >= 0)),
+});
+
+/**
+ * Reads the persistent counters, starting a new day's counts if the stored ones are from an earlier day.
+ */
+const loadStoredUsage = (): StoredUsage => {
+  let stored: Partial<StoredUsage> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') ?? {};
+  } catch (err) {
+    console.warn('Ignoring unreadable usage counters:', err);
+  }
+  const day = localDay();
+  return {
+    day,
+    today: stored.day === day ? readCounters(stored.today) : emptyCounters(),
+    total: readCounters(stored.total),
+  };
+};
+
+const readLimit = (value: unknown): number | null => (typeof value === 'number' && value >= 0 ? value : null);
+
+/**
+ * Loads the user's generation budgets, falling back to no limit for anything missing or invalid.
+ * @returns The budgets.
+ */
+export const loadUsageBudgets = (): UsageBudgets => {
+  let stored: Partial<UsageBudgets> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(BUDGETS_STORAGE_KEY) ?? '{}') ?? {};
+  } catch (err) {
+    console.warn('Ignoring unreadable usage budgets:', err);
+  }
+  return {
+    sessionRequests: readLimit(stored.sessionRequests ?? DEFAULT_USAGE_BUDGETS.sessionRequests),
+    dailyRequests: readLimit(stored.dailyRequests ?? DEFAULT_USAGE_BUDGETS.dailyRequests),
+    sessionTokens: readLimit(stored.sessionTokens ?? DEFAULT_USAGE_BUDGETS.sessionTokens),
+    dailyTokens: readLimit(stored.dailyTokens ?? DEFAULT_USAGE_BUDGETS.dailyTokens),
+  };
+};
+
+/**
+ * Checks usage against its budgets.
+ * @param usage - The usage and budgets.
+ * @returns A message saying which budget has been used up, or null if generation may go on.
+ */
+export const getUsageBudgetError = ({ session, today, budgets }: UsageSnapshot): string | null => {
+  const sessionTokens = session.inputTokens + session.outputTokens;
+  const dailyTokens = today.inputTokens + today.outputTokens;
+  const advice = 'Raise the limit in the Usage panel to keep generating.';
+  if (budgets.sessionRequests !== null && session.requests >= budgets.sessionRequests) {
+    return `The session budget of ${budgets.sessionRequests} generation requests has been used up. ${advice}`;
+  }
+  if (budgets.dailyRequests !== null && today.requests >= budgets.dailyRequests) {
+    return `Today's budget of ${budgets.dailyRequests} generation requests has been used up. ${advice}`;
+  }
+  if (budgets.sessionTokens !== null && sessionTokens >= budgets.sessionTokens) {
+    return `The session budget of ${budgets.sessionTokens.toLocaleString('en-US')} tokens has been used up. ${advice}`;
+  }
+  if (budgets.dailyTokens !== null && dailyTokens >= budgets.dailyTokens) {
+    return `Today's budget of ${budgets.dailyTokens.toLocaleString('en-US')} tokens has been used up. ${advice}`;
+  }
+  return null;
+};
+
+/**
+ * Creates a usage tracker. Persistent counts are kept in local storage, so they add up across sessions and tabs.
+ * @returns The tracker.
+ */
+export const createUsageTracker = (): UsageTracker => {
+  const listeners = new Set<(snapshot: UsageSnapshot) => void>();
+  let session = emptyCounters();
+  let stored = loadStoredUsage();
+  let budgets = loadUsageBudgets();
+
+  const getSnapshot = (): UsageSnapshot => ({ session, today: stored.today, total: stored.total, budgets });
+
+  const record = (delta: Partial<UsageCounters>) => {
+    session = addCounters(session, delta);
+    // Re-read before writing, so counts from other tabs and a change of day aren't lost.
+    const latest = loadStoredUsage();
+    stored = { day: latest.day, today: addCounters(latest.today, delta), total: addCounters(latest.total, delta) };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch (err) {
+      console.warn('Could not save usage counters:', err);
+    }
+    const snapshot = getSnapshot();
+    listeners.forEach(listener => listener(snapshot));
+  };
+
+  return {
+    getSnapshot,
+    recordRequest: () => record({ requests: 1 }),
+    recordFailure: () => record({ failures: 1 }),
+    recordTokens: ({ inputTokens, outputTokens }) => record({ inputTokens, outputTokens }),
+    recordTileFetches: (count) => record({ tileFetches: count }),
+    setBudgets: (next) => {
+      budgets = next;
+      try {
+        localStorage.setItem(BUDGETS_STORAGE_KEY, JSON.stringify(budgets));
+      } catch (err) {
+        console.warn('Could not save usage budgets:', err);
+      }
+      const snapshot = getSnapshot();
+      listeners.forEach(listener => listener(snapshot));
+    },
+    getBudgetError: () => {
+      // The day may have changed since the last request.
+      stored = loadStoredUsage();
+      return getUsageBudgetError(getSnapshot());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(getSnapshot());
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+/**
+ * Wraps a style engine so every request is counted and checked against the budgets before it is sent.
+ * Engines without pricing, such as a local one, cost nothing and are returned as they are.
+ * @param engine - The style engine.
+ * @param tracker - The usage tracker to record requests in.
+ * @returns A style engine that behaves like `engine`, but rejects requests once a budget has been used up.
+ */
+export const trackStyleEngineUsage = (engine: StyleEngine, tracker: UsageTracker): StyleEngine => {
+  if (engine.pricing === null) return engine;
+  return {
+    ...engine,
+    stylize: async (request) => {
+      const budgetError = tracker.getBudgetError();
+      if (budgetError) throw new Error(budgetError);
+
+      tracker.recordRequest();
+      try {
+        return await engine.stylize({
+          ...request,
+          onUsage: usage => {
+            tracker.recordTokens(usage);
+            request.onUsage?.(usage);
+          },
+        });
+      } catch (err) {
+        // A cancelled request isn't a failure of the engine.
+        if (!request.signal?.aborted) tracker.recordFailure();
+        throw err;
+      }
+    },
+  };
+};
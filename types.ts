@@ -7,11 +7,25 @@ export interface LocationState extends Coordinates {
   zoom: number;
 }
 
+export interface LatLngBounds {
+  north: number;
+  south: number;
+  east: number;  // may be less than `west` for areas crossing the antimeridian
+  west: number;
+}
+
 export interface MapTile {
   url: string;
+  x: number;     // tile column in the zoom level's XYZ tile grid
+  y: number;     // tile row in the zoom level's XYZ tile grid
+  zoom: number;
   gridX: number; // grid column index (0, 1, 2...)
   gridY: number; // grid row index (0, 1, 2...)
   key: string;   // unique key for react list
+  // In label-preserving mode: the tile without labels, which is what gets restyled,
+  // and a transparent labels-only tile drawn over the styled image.
+  unlabeledUrl?: string;
+  labelsUrl?: string;
 }
 
 export interface MapOffset {
@@ -19,7 +33,171 @@ export interface MapOffset {
   y: number;
 }
 
+// The size of the map viewport in CSS pixels.
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
 export interface MapData {
   tiles: MapTile[];
   offset: MapOffset;
 }
+
+export type MapType = 'roadmap' | 'satellite' | 'terrain';
+
+export type MapLayerType = 'layerRoadmap' | 'layerStreetview' | 'layerTraffic';
+
+export type MapScale = 'scaleFactor1x' | 'scaleFactor2x' | 'scaleFactor4x';
+
+// Options for a Google Map Tiles API session. They decide what the base tiles look like.
+export interface MapSessionOptions {
+  mapType: MapType;
+  // Overlays drawn on the base map; terrain requires 'layerRoadmap'.
+  layerTypes: MapLayerType[];
+  language: string;  // IETF language tag, e.g. 'en-US'
+  region: string;    // CLDR region code, e.g. 'US'
+  scale: MapScale;   // enlarges labels and map features
+}
+
+// 'standard' is the normal map; 'unlabeled' hides all labels; 'labels' is a transparent layer with only the labels.
+export type MapLayerVariant = 'standard' | 'unlabeled' | 'labels';
+
+export interface MapSession {
+  token: string;
+  // When the session stops working, in milliseconds since the epoch.
+  expiresAt: number;
+}
+
+// 'center' restyles only the central tile; 'viewport' restyles every fetched tile; 'region' restyles the tiles
+// of a region drawn on the map.
+export type GenerationScope = 'center' | 'viewport' | 'region';
+
+export type RegionShape = 'rectangle' | 'polygon';
+
+// An area drawn on the map to restyle, at one or more zoom levels.
+export interface SelectionRegion {
+  shape: RegionShape;
+  // The outline's corners in order. A rectangle has four.
+  points: Coordinates[];
+  minZoom: number;
+  maxZoom: number;
+}
+
+// A style engine's prices in US dollars, for cost estimates.
+export interface StylePricing {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+}
+
+// What a generation is expected to take, shown before restyling a region.
+export interface GenerationEstimate {
+  tileCount: number;
+  tileCountsByZoom: Record<number, number>;
+  // Requests to the style engine, counting every variation.
+  requestCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  // In US dollars. Null if the engine has no known pricing.
+  cost: number | null;
+}
+
+export interface GenerationOptions {
+  scope: GenerationScope;
+  // Number of adjacent tiles per side stitched into one request; 1 restyles every tile on its own.
+  mosaicSize: number;
+  // Keeps the style consistent across zoom levels: tiles are conditioned on their styled parent, and tiles whose
+  // four children are all styled are built by scaling those down instead of being generated.
+  matchZoomLevels: boolean;
+  // Evens out the colours of newly styled tiles against their styled neighbours and blends their shared edges.
+  blendSeams: boolean;
+}
+
+// How styled tiles are shown against the original map, to compare the two.
+export interface StyleComparison {
+  // Where the swipe divider sits, as a fraction of the map width from the left. Null hides it.
+  swipePosition: number | null;
+  // Opacity of the styled tiles over the original ones, from 0 to 1.
+  styledOpacity: number;
+  // Shows tiles blended this session as they were before seam blending.
+  showUnblended: boolean;
+}
+
+// A named style the user can switch to. It owns its advanced settings; its reference images, styled tiles and
+// tile histories are stored under its id, so two layers with the same prompt stay separate.
+export interface StyleLayer {
+  id: string;
+  name: string;
+  prompt: string;
+  generationSettings: GenerationSettings;
+}
+
+export interface StyleLayerState {
+  layers: StyleLayer[];
+  activeLayerId: string;
+}
+
+// Advanced settings for style generation, saved with each style layer.
+export interface GenerationSettings {
+  // The instruction sent to the model, with {style}, {lat}, {lng} and {zoom} placeholders.
+  promptTemplate: string;
+  // Things the result should not contain.
+  negativePrompt: string;
+  // The model to use; empty for the style engine's default.
+  model: string;
+  // Sampling parameters for engines that support them; null leaves them to the model.
+  temperature: number | null;
+  seed: number | null;
+  // How many candidates to generate per tile, to pick from.
+  variations: number;
+}
+
+export type GenerationJobStatus = 'queued' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  id: string;
+  // Describes the job in the queue panel, e.g. "Tile 16-58206-25803".
+  label: string;
+  // The tiles the job restyles.
+  tileKeys: string[];
+  status: GenerationJobStatus;
+  // The number of attempts started so far.
+  attempts: number;
+  // The error of the last failed attempt.
+  error?: string;
+  // When a retrying job will be attempted again, in milliseconds since the epoch.
+  nextAttemptAt?: number;
+}
+
+export interface GenerationProgress {
+  completed: number;
+  total: number;
+}
+
+// Counts of the billable work done through the app's API keys.
+export interface UsageCounters {
+  // Requests sent to the style engine, including failed and cancelled ones.
+  requests: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Base map tiles loaded for display, counting the labels-only overlay in label-preserving mode.
+  tileFetches: number;
+}
+
+// Limits on generation; null means no limit. Tokens count input and output together.
+export interface UsageBudgets {
+  sessionRequests: number | null;
+  dailyRequests: number | null;
+  sessionTokens: number | null;
+  dailyTokens: number | null;
+}
+
+export interface UsageSnapshot {
+  session: UsageCounters;
+  // Since local midnight, across sessions in this browser.
+  today: UsageCounters;
+  // Every session in this browser.
+  total: UsageCounters;
+  budgets: UsageBudgets;
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
@@ -5,13 +6,26 @@ export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.TILE_SOURCE': JSON.stringify(env.TILE_SOURCE),
+        'process.env.TILE_URL_TEMPLATE': JSON.stringify(env.TILE_URL_TEMPLATE),
+        'process.env.TILE_DIRECTORY': JSON.stringify(env.TILE_DIRECTORY),
+        'process.env.TILE_EXTENSION': JSON.stringify(env.TILE_EXTENSION),
+        'process.env.TILE_MAX_ZOOM': JSON.stringify(env.TILE_MAX_ZOOM),
+        'process.env.STYLE_ENGINE': JSON.stringify(env.STYLE_ENGINE),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL),
+        'process.env.GEOCODER': JSON.stringify(env.GEOCODER),
+        'process.env.GENERATION_RATE_LIMIT': JSON.stringify(env.GENERATION_RATE_LIMIT)
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        include: ['**/*.test.ts'],
+        exclude: ['node_modules/**', 'dist/**'],
+        setupFiles: ['./vitest.setup.ts'],
       }
     };
 });
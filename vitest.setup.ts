@@ -0,0 +1,44 @@
+import { Image as CanvasImage, createCanvas } from '@napi-rs/canvas';
+
+// The image helpers draw through the DOM's <img> and <canvas>. Tests run in Node, so these are backed by a real
+// canvas implementation rather than a browser.
+class TestImage {
+  crossOrigin: string | null = null;
+  onload: (() => void) | null = null;
+  onerror: ((err: unknown) => void) | null = null;
+  private image = new CanvasImage();
+
+  get width() { return this.image.width; }
+  get height() { return this.image.height; }
+
+  set src(url: string) {
+    this.image.onload = () => this.onload?.();
+    this.image.onerror = err => this.onerror?.(err);
+    this.image.src = url;
+  }
+
+  // Lets the canvas draw this wrapper like one of its own images.
+  get canvasImage() { return this.image; }
+}
+
+const createTestCanvas = () => {
+  const canvas = createCanvas(300, 150);
+  const getContext = canvas.getContext.bind(canvas);
+  return Object.assign(canvas, {
+    getContext: (type: '2d') => {
+      const ctx = getContext(type);
+      const drawImage = ctx.drawImage.bind(ctx) as (...args: unknown[]) => void;
+      return Object.assign(ctx, {
+        drawImage: (image: unknown, ...args: unknown[]) => drawImage(image instanceof TestImage ? image.canvasImage : image, ...args),
+      });
+    },
+  });
+};
+
+Object.assign(globalThis, {
+  Image: TestImage,
+  document: { createElement: (tag: string) => {
+    if (tag !== 'canvas') throw new Error(`The test document can only create canvases, not <${tag}>.`);
+    return createTestCanvas();
+  } },
+});